@@ -1,230 +1,282 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
-import * as math from "mathjs"
+import { useState, useEffect, useMemo, useRef } from "react"
+import Link from "next/link"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartStyle } from "@/components/ui/chart"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Slider } from "@/components/ui/slider"
-import { Play, Pause, ZoomIn, ZoomOut, RefreshCw } from "lucide-react"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Switch } from "@/components/ui/switch"
+import { BookOpen, Play, Pause, ZoomIn, ZoomOut, RefreshCw, Square, Volume2 } from "lucide-react"
 import { useMediaQuery } from "@/hooks/use-media-query"
+import { useCriticalPoints } from "@/hooks/use-critical-points"
+import { useCurves } from "@/hooks/use-curves"
+import { useCurveSummary } from "@/hooks/use-curve-summary"
+import { useGraphGestures } from "@/hooks/use-graph-gestures"
+import { useGraphProbe } from "@/hooks/use-graph-probe"
+import { useGraphView, GRAPH_PADDING } from "@/hooks/use-graph-view"
+import { useIntegral } from "@/hooks/use-integral"
+import { useTaylorExpansion } from "@/hooks/use-taylor-expansion"
+import { useShareLink } from "@/hooks/use-share-link"
+import CopyLinkButton from "@/components/copy-link-button"
+import CriticalPointMarkers from "@/components/critical-point-markers"
+import CriticalPointsTable from "@/components/critical-points-table"
+import DerivationSteps from "@/components/derivation-steps"
+import DerivativeTableWarning from "@/components/derivative-table-warning"
+import ExportMenu from "@/components/export-menu"
+import ExpressionInput from "@/components/expression-input"
+import FunctionList, {
+  derivativeDasharray,
+  functionLegend,
+  parseFunctionList,
+  serializeFunctionList,
+  LINE_STYLES,
+  type PlottedFunction,
+} from "@/components/function-list"
+import {
+  GRAPH_COLORS,
+  FUNCTION_COLOR,
+  DERIVATIVE_COLOR,
+  TANGENT_COLOR,
+  POSITIVE_AREA_COLOR,
+  NEGATIVE_AREA_COLOR,
+  TAYLOR_COLOR,
+  REMAINDER_COLOR,
+  SECANT_COLOR,
+  AXIS_COLOR,
+  TICK_COLOR,
+  SELECTION_COLOR,
+} from "@/components/graph-colors"
+import GraphLegend, { type GraphLegendItem } from "@/components/graph-legend"
+import IntegralArea, { IntegralBounds } from "@/components/integral-overlay"
+import IntegralPanel from "@/components/integral-panel"
+import MathExpression from "@/components/math-expression"
+import ParameterSliders from "@/components/parameter-sliders"
+import ProbeOverlay from "@/components/probe-overlay"
+import RiemannOverlay from "@/components/riemann-overlay"
+import RiemannPanel, { MAX_SUBINTERVALS } from "@/components/riemann-panel"
+import SecantOverlay from "@/components/secant-overlay"
+import SecantPanel, { MAX_LOG_STEP, MIN_LOG_STEP, secantStep, type SecantSide } from "@/components/secant-panel"
+import TaylorOverlay from "@/components/taylor-overlay"
+import TaylorPanel from "@/components/taylor-panel"
+import ThemeToggle from "@/components/theme-toggle"
+import WindowControls from "@/components/window-controls"
+import {
+  bindParameters,
+  checkDomain,
+  createPath,
+  derivativeAt,
+  findParameters,
+  fitYRange,
+  mapToSVG,
+  numericalDerivative,
+  isAbortError,
+  riemannShapes,
+  runInWorker,
+  safeEval,
+  symbolicDerivative,
+  taylorPolynomial,
+  tickStep,
+  usableTaylorDegree,
+  validateExpression,
+  MAX_TAYLOR_DEGREE,
+  DEFAULT_PARAMETER,
+  RIEMANN_METHODS,
+  type ExpressionIssue,
+  type ParameterSetting,
+  type Point,
+  type Range,
+  type RiemannMethod,
+} from "@/lib/calculus"
+import { predefinedFunctions, type Tab } from "@/lib/examples"
+import { curveTable, type DataTable } from "@/lib/export"
+import { formatNumber, formatNumbers, readChoice, readFlag, readJson, readNumber, readNumbers } from "@/lib/share"
+
+const formatZoom = (zoom: number) => (zoom >= 100 ? zoom.toExponential(1) : zoom.toPrecision(2))
+
+type Mode = "derivative" | "secant" | "integral" | "taylor"
+
+const MODE_TITLES: Record<Mode, string> = {
+  derivative: "Derivative Visualizer",
+  secant: "From Secant to Tangent",
+  integral: "Integral Visualizer",
+  taylor: "Taylor Series Expansion",
+}
+
+const MODES = Object.keys(MODE_TITLES) as Mode[]
+
+// What the legend names after f itself in each mode
+const MODE_LEGENDS: Record<Mode, GraphLegendItem[]> = {
+  derivative: [
+    { label: "Derivative", color: DERIVATIVE_COLOR, dasharray: "5,5" },
+    { label: "Tangent Line", color: TANGENT_COLOR },
+  ],
+  secant: [
+    { label: "Secant Line", color: SECANT_COLOR },
+    { label: "Tangent Line", color: TANGENT_COLOR, strokeWidth: 1.5, dasharray: "6,4" },
+  ],
+  integral: [
+    { label: "Positive Area", color: POSITIVE_AREA_COLOR, fillOpacity: 0.3 },
+    { label: "Negative Area", color: NEGATIVE_AREA_COLOR, fillOpacity: 0.4 },
+  ],
+  taylor: [
+    { label: "Taylor Polynomial", color: TAYLOR_COLOR, strokeWidth: 2.5 },
+    { label: "Remainder |f - P|", color: REMAINDER_COLOR, dasharray: "2,4" },
+  ],
+}
 
 const DerivativeVisualizer = () => {
-  const [activeTab, setActiveTab] = useState("trig")
-  const [customFunction, setCustomFunction] = useState("sin(x)")
+  const [mode, setMode] = useState<Mode>("derivative")
+  const [activeTab, setActiveTab] = useState<Tab>("trig")
+  // The function as typed, possibly with free parameters such as a*sin(b*x + c)
+  const [functionInput, setFunctionInput] = useState("sin(x)")
+  const [parameters, setParameters] = useState<Record<string, ParameterSetting>>({})
+  // Further functions drawn on the same axes for comparison
+  const [functions, setFunctions] = useState<PlottedFunction[]>([])
   const [derivedFunction, setDerivedFunction] = useState("")
+  const [symbolicDerivativeExpr, setSymbolicDerivativeExpr] = useState<string | undefined>()
   const [errorMessage, setErrorMessage] = useState("")
-  const [viewRange, setViewRange] = useState([-10, 10])
-  const [points, setPoints] = useState([])
-  const [derivativePoints, setDerivativePoints] = useState([])
-  const [highlighted, setHighlighted] = useState(false)
-  const [highlightPoint, setHighlightPoint] = useState({ x: 0, y: 0, dy: 0 })
-  const [svgWidth, setSvgWidth] = useState(0)
-  const [svgHeight, setSvgHeight] = useState(0)
+  const [expressionIssue, setExpressionIssue] = useState<ExpressionIssue | null>(null)
+  const view = useGraphView()
+  const [points, setPoints] = useState<Point[][]>([])
+  const [derivativePoints, setDerivativePoints] = useState<Point[][]>([])
 
   // Animation state
   const [isAnimating, setIsAnimating] = useState(false)
   const [animationProgress, setAnimationProgress] = useState(0)
-  const animationRef = useRef()
   const [animationSpeed, setAnimationSpeed] = useState(1)
 
-  // Zoom state
-  const [zoomLevel, setZoomLevel] = useState(1)
-  const [panOffset, setPanOffset] = useState({ x: 0, y: 0 })
-  const isDragging = useRef(false)
-  const lastMousePos = useRef({ x: 0, y: 0 })
-
-  const graphRef = useRef(null)
-
-  // Predefined functions for each rule
-  const predefinedFunctions = {
-    trig: [
-      { name: "sin(x)", derivative: "cos(x)" },
-      { name: "cos(x)", derivative: "-sin(x)" },
-      { name: "tan(x)", derivative: "sec(x)^2" },
-    ],
-    product: [
-      { name: "x * sin(x)", derivative: "sin(x) + x * cos(x)" },
-      { name: "x^2 * cos(x)", derivative: "2 * x * cos(x) - x^2 * sin(x)" },
-      { name: "e^x * x", derivative: "e^x * (x + 1)" },
-    ],
-    quotient: [
-      { name: "sin(x) / x", derivative: "(x * cos(x) - sin(x)) / x^2" },
-      { name: "x / cos(x)", derivative: "(cos(x) - x * sin(x)) / cos(x)^2" },
-      { name: "(x^2 + 1) / x", derivative: "(x^2 - 1) / x^2" },
-    ],
-    chain: [
-      { name: "sin(x^2)", derivative: "2 * x * cos(x^2)" },
-      { name: "e^sin(x)", derivative: "cos(x) * e^sin(x)" },
-      { name: "ln(cos(x))", derivative: "-tan(x)" },
-    ],
-    custom: [{ name: "sin(x)", derivative: "cos(x)" }],
-  }
-
-  // Function to safely evaluate mathematical expressions
-  const safeEval = (expr, x) => {
-    try {
-      return math.evaluate(expr, { x })
-    } catch (e) {
-      return Number.NaN
-    }
-  }
-
-  // Calculate derivative using central difference formula
-  const numericalDerivative = (func, x, h = 0.0001) => {
-    return (safeEval(func, x + h) - safeEval(func, x - h)) / (2 * h)
-  }
-
-  // Calculate points for graph
-  const calculatePoints = (func, range, numPoints = 500) => {
-    const result = []
-    const step = (range[1] - range[0]) / numPoints
-
-    for (let i = 0; i <= numPoints; i++) {
-      const x = range[0] + i * step
-      const y = safeEval(func, x)
-      if (!isNaN(y) && isFinite(y) && Math.abs(y) < 100) {
-        result.push({ x, y })
-      }
-    }
-
-    return result
-  }
-
-  // Get effective view range (considering zoom and pan)
-  const getEffectiveViewRange = () => {
-    const rangeWidth = viewRange[1] - viewRange[0]
-    const zoomedWidth = rangeWidth / zoomLevel
-    const centerX = (viewRange[0] + viewRange[1]) / 2 + panOffset.x
-
-    return [centerX - zoomedWidth / 2, centerX + zoomedWidth / 2]
-  }
-
-  // Map coordinates from mathematical to SVG space
-  const mapToSVG = (point, range = getEffectiveViewRange()) => {
-    const padding = 40
-    const graphWidth = svgWidth - 2 * padding
-    const graphHeight = svgHeight - 2 * padding
-
-    const xScale = graphWidth / (range[1] - range[0])
-    const yScale = (graphHeight / 20) * zoomLevel // Adjust y-scale with zoom
-
-    const svgX = padding + (point.x - range[0]) * xScale
-    const svgY = svgHeight / 2 - point.y * yScale + panOffset.y
-
-    return { x: svgX, y: svgY }
-  }
-
-  // Create SVG path from points
-  const createPath = (points, range = getEffectiveViewRange(), animated = false) => {
-    if (points.length === 0) return ""
-
-    let path = ""
-    let startIndex = 0
-
-    if (animated) {
-      startIndex = 0
-      const endIndex = Math.floor(points.length * animationProgress)
-      if (endIndex <= 0) return ""
-
-      path = `M ${mapToSVG(points[0], range).x} ${mapToSVG(points[0], range).y}`
-
-      for (let i = 1; i <= endIndex; i++) {
-        const { x, y } = mapToSVG(points[i], range)
-        path += ` L ${x} ${y}`
-      }
-    } else {
-      path = `M ${mapToSVG(points[0], range).x} ${mapToSVG(points[0], range).y}`
-
-      for (let i = 1; i < points.length; i++) {
-        const { x, y } = mapToSVG(points[i], range)
-        path += ` L ${x} ${y}`
-      }
-    }
-
-    return path
-  }
-
-  // Animation function
-  const animate = (timestamp) => {
-    if (!animationRef.current) {
-      animationRef.current = timestamp
-    }
-
-    const elapsed = timestamp - animationRef.current
-
-    // Adjust speed (complete cycle in 5000ms / speed)
-    setAnimationProgress((prev) => {
-      const newProgress = prev + elapsed / (5000 / animationSpeed)
-      return newProgress > 1 ? 0 : newProgress
-    })
-
-    animationRef.current = timestamp
+  // A tangent from a shared link, pinned once its curve has been sampled
+  const pendingTangent = useRef<number | null>(null)
+  const calculationRef = useRef<AbortController | null>(null)
+  // A y fit under way, which no longer applies once the function or the view changes
+  const fitRef = useRef<AbortController | null>(null)
+  const [isCalculating, setIsCalculating] = useState(false)
+  const [showSkeleton, setShowSkeleton] = useState(false)
+
+  // Integral state
+  const [integralBounds, setIntegralBounds] = useState<Range>([0, 3])
+  const [riemannMethod, setRiemannMethod] = useState<RiemannMethod | null>(null)
+  const [riemannN, setRiemannN] = useState(10)
+
+  // Secant state
+  const [secantPoint, setSecantPoint] = useState(1)
+  const [secantLogStep, setSecantLogStep] = useState(0)
+  const [secantSide, setSecantSide] = useState<SecantSide>("right")
+
+  // Taylor state
+  const [taylorCenter, setTaylorCenter] = useState(0)
+  const [taylorDegree, setTaylorDegree] = useState(3)
+
+  const [showCriticalPoints, setShowCriticalPoints] = useState(false)
+
+  // Everything below works on the function with the slider values substituted for its parameters
+  const parameterNames = findParameters(functionInput)
+  const customFunction = bindParameters(
+    functionInput,
+    Object.fromEntries(parameterNames.map((name) => [name, (parameters[name] ?? DEFAULT_PARAMETER).value])),
+  )
 
-    if (isAnimating) {
-      requestAnimationFrame(animate)
-    }
-  }
+  const probe = useGraphProbe({
+    func: customFunction,
+    derivative: symbolicDerivativeExpr,
+    hasCurve: points.length > 0,
+    range: view.range,
+    yRange: view.yRange,
+    onError: setErrorMessage,
+  })
+
+  const gestures = useGraphGestures({
+    view,
+    probe,
+    onBoundDrag: (index, bound) => setIntegralBounds((prev) => (index === 0 ? [bound, prev[1]] : [prev[0], bound])),
+  })
+
+  const handleParameterChange = (name: string, setting: ParameterSetting) =>
+    setParameters((prev) => ({ ...prev, [name]: setting }))
+
+  const integral = useIntegral(customFunction, integralBounds, mode === "integral")
+  const {
+    coefficients: taylorExpansion,
+    samples: taylor,
+    error: taylorError,
+  } = useTaylorExpansion(customFunction, taylorCenter, mode === "taylor", view.range, view.sampleOptions)
+  const criticalPoints = useCriticalPoints(customFunction, view.range, showCriticalPoints)
+  const summary = useCurveSummary(customFunction, view.range)
+
+  // Compared functions share the sliders of any parameters they have in common with the main one
+  const parameterValues = Object.fromEntries(Object.entries(parameters).map(([name, { value }]) => [name, value]))
+  const comparedCurves = useCurves(
+    functions
+      .filter((func) => func.visible)
+      .map(({ id, expr, showDerivative }) => ({ id, expr: bindParameters(expr, parameterValues), showDerivative })),
+    view.range,
+    view.sampleOptions,
+  )
 
-  // Start/stop animation
+  // Advance the animation; progress wraps from 1 back to 0 every 5000ms / speed
   useEffect(() => {
-    if (isAnimating) {
-      animationRef.current = null
-      requestAnimationFrame(animate)
+    if (!isAnimating) return
+
+    let frame: number
+    let last: number | null = null
+    const step = (timestamp: number) => {
+      const elapsed = last === null ? 0 : timestamp - last
+      last = timestamp
+      setAnimationProgress((prev) => {
+        const newProgress = prev + elapsed / (5000 / animationSpeed)
+        return newProgress > 1 ? 0 : newProgress
+      })
+      frame = requestAnimationFrame(step)
     }
+    frame = requestAnimationFrame(step)
 
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current)
-      }
-    }
-  }, [isAnimating]) // Corrected dependency
+    return () => cancelAnimationFrame(frame)
+  }, [isAnimating, animationSpeed])
 
   // Handle tab change
-  const handleTabChange = (value) => {
-    setActiveTab(value)
-    if (value !== "custom") {
-      const defaultFunc = predefinedFunctions[value][0]
-      setCustomFunction(defaultFunc.name)
+  const handleTabChange = (value: string) => {
+    const tab = value as Tab
+    setActiveTab(tab)
+    if (tab !== "custom") {
+      const defaultFunc = predefinedFunctions[tab][0]
+      setFunctionInput(defaultFunc.name)
       setDerivedFunction(defaultFunc.derivative)
       setErrorMessage("")
     } else {
-      setCustomFunction("")
+      setFunctionInput("")
       setDerivedFunction("")
     }
+    setExpressionIssue(null)
     calculateDerivative()
   }
 
   // Handle function selection change
-  const handleFunctionChange = (value) => {
+  const handleFunctionChange = (value: string) => {
     const selectedFunc = predefinedFunctions[activeTab].find((f) => f.name === value)
     if (selectedFunc) {
-      setCustomFunction(selectedFunc.name)
+      setFunctionInput(selectedFunc.name)
       setDerivedFunction(selectedFunc.derivative)
       setErrorMessage("")
     }
   }
 
-  // Handle custom function input
-  const handleCustomFunctionChange = (e) => {
-    setCustomFunction(e.target.value)
-    try {
-      const xTest = safeEval(e.target.value, 1)
-      if (isNaN(xTest) || !isFinite(xTest)) {
-        throw new Error("Invalid function")
-      }
-      setErrorMessage("")
-    } catch (e) {
-      setErrorMessage("Warning: Function may be invalid")
-    }
+  // Handle custom function input: only static checks here, evaluating at a fixed x wrongly flags
+  // functions such as ln(x - 2) that are simply undefined there
+  const handleCustomFunctionChange = (value: string) => {
+    setFunctionInput(value)
+    setExpressionIssue(value.trim() ? validateExpression(value) : null)
   }
 
   // Calculate derivative and update graphs
   const calculateDerivative = () => {
     try {
+      let derivativeExpr: string | undefined
       if (activeTab === "custom") {
         if (!customFunction.trim()) {
           setDerivedFunction("")
@@ -232,29 +284,60 @@ const DerivativeVisualizer = () => {
           setDerivativePoints([])
           return
         }
-        const x0 = 0
-        const derValue = numericalDerivative(customFunction, x0)
-        setDerivedFunction(`Numerical derivative at x=0: ${derValue.toFixed(4)}`)
+        const issue = validateExpression(customFunction)
+        setExpressionIssue(issue)
+        if (issue) {
+          setDerivedFunction("")
+          setPoints([])
+          setDerivativePoints([])
+          return
+        }
+        try {
+          derivativeExpr = symbolicDerivative(customFunction)
+          // Show f' in terms of the parameters rather than their current values
+          setDerivedFunction(parameterNames.length > 0 ? symbolicDerivative(functionInput) : derivativeExpr)
+        } catch (e) {
+          // Fall back to central differences when mathjs cannot differentiate the input
+          const derValue = numericalDerivative(customFunction, 0)
+          setDerivedFunction(`No symbolic derivative found. Numerical derivative at x=0: ${derValue.toFixed(4)}`)
+        }
       } else {
         setDerivedFunction(predefinedFunctions[activeTab].find((f) => f.name === customFunction)?.derivative || "")
       }
-
-      // Calculate points for both functions
-      const range = getEffectiveViewRange()
-      const funcPoints = calculatePoints(customFunction, range)
-      setPoints(funcPoints)
-
-      // Calculate derivative points
-      const derPoints = []
-      for (const point of funcPoints) {
-        const dy = numericalDerivative(customFunction, point.x)
-        if (!isNaN(dy) && isFinite(dy) && Math.abs(dy) < 100) {
-          derPoints.push({ x: point.x, y: dy })
-        }
-      }
-      setDerivativePoints(derPoints)
-
-      setErrorMessage("")
+      setSymbolicDerivativeExpr(derivativeExpr)
+
+      // Sample both curves in the worker, judging smoothness against the visible y span
+      calculationRef.current?.abort()
+      fitRef.current?.abort()
+      const controller = new AbortController()
+      calculationRef.current = controller
+
+      const { signal } = controller
+      const range = view.range
+      const options = view.sampleOptions
+      const funcJob = runInWorker({ kind: "curve", expr: customFunction, range, options }, { signal })
+      const derivativeJob = runInWorker(
+        { kind: "curve", expr: derivativeExpr ?? customFunction, range, options, numericDerivative: !derivativeExpr },
+        { signal },
+      )
+
+      setIsCalculating(true)
+      Promise.all([funcJob, derivativeJob])
+        .then(([funcSegments, derivativeSegments]) => {
+          setPoints(funcSegments)
+          setDerivativePoints(derivativeSegments)
+          setErrorMessage("")
+          if (activeTab === "custom") setExpressionIssue(checkDomain(funcSegments, range))
+        })
+        .catch((e) => {
+          if (isAbortError(e)) return
+          setErrorMessage(e.message)
+          setPoints([])
+          setDerivativePoints([])
+        })
+        .finally(() => {
+          if (calculationRef.current === controller) setIsCalculating(false)
+        })
     } catch (e) {
       setErrorMessage("Error calculating derivative: " + e.message)
       setPoints([])
@@ -262,155 +345,187 @@ const DerivativeVisualizer = () => {
     }
   }
 
-  // Handle mouse over to show derivative at point
-  const handleMouseMove = (e) => {
-    if (points.length === 0 || isDragging.current) return
-
-    const svgRect = e.currentTarget.getBoundingClientRect()
-    const mouseX = e.clientX - svgRect.left
-
-    // Convert SVG coordinates back to math coordinates
-    const padding = 40
-    const graphWidth = svgWidth - 2 * padding
-    const range = getEffectiveViewRange()
-    const xScale = graphWidth / (range[1] - range[0])
-    const x = range[0] + (mouseX - padding) / xScale
-
-    if (x >= range[0] && x <= range[1]) {
-      const y = safeEval(customFunction, x)
-      const dy = numericalDerivative(customFunction, x)
-
-      setHighlighted(true)
-      setHighlightPoint({ x, y, dy })
+  // Fit y to f (and f' where it is drawn) over the visible x range, sampled without the usual cut-off
+  const handleFitY = () => {
+    if (!customFunction.trim()) return
+    fitRef.current?.abort()
+    const controller = new AbortController()
+    fitRef.current = controller
+
+    const { signal } = controller
+    const range = view.range
+    const options = { maxAbs: Number.POSITIVE_INFINITY }
+    const jobs = [runInWorker({ kind: "curve", expr: customFunction, range, options }, { signal })]
+    if (mode === "derivative") {
+      jobs.push(runInWorker({ kind: "curve", expr: customFunction, range, options, derivativeOrder: 1 }, { signal }))
     }
-  }
 
-  // Handle mouse leave
-  const handleMouseLeave = () => {
-    setHighlighted(false)
+    Promise.all(jobs)
+      .then((curves) => {
+        const fit = fitYRange(curves.flat(), range)
+        if (!fit) return
+        // The zoom level stays, so the base range is widened by it
+        const center = (fit[0] + fit[1]) / 2
+        const halfHeight = ((fit[1] - fit[0]) / 2) * view.zoom.y
+        view.setLockAspect(false)
+        view.setYViewRange([center - halfHeight, center + halfHeight])
+        view.setPanOffset((prev) => ({ ...prev, y: 0 }))
+      })
+      .catch((e) => {
+        if (!isAbortError(e)) setErrorMessage(e.message)
+      })
   }
 
-  // Handle mouse down for panning
-  const handleMouseDown = (e) => {
-    if (e.button === 0) {
-      // Left mouse button
-      isDragging.current = true
-      lastMousePos.current = { x: e.clientX, y: e.clientY }
+  // Update calculations when zoom or pan changes
+  useEffect(() => {
+    calculateDerivative()
+  }, [customFunction, view.viewRange, view.yViewRange, view.lockAspect, activeTab, view.zoom, view.panOffset])
+
+  // Only show the loading placeholder for calculations slow enough to notice
+  useEffect(() => {
+    if (!isCalculating) {
+      setShowSkeleton(false)
+      return
+    }
+    const timer = setTimeout(() => setShowSkeleton(true), 150)
+    return () => clearTimeout(timer)
+  }, [isCalculating])
+
+  // Open the view a shared link describes; whatever it leaves out or gets wrong keeps its default
+  const restoreSharedView = (params: URLSearchParams) => {
+    const requestedTab = readChoice(params, "tab", Object.keys(predefinedFunctions) as Tab[]) ?? "trig"
+    const func = params.get("f")
+    // A function missing from the requested table is still shown, as a custom one
+    const tab =
+      func !== null && !predefinedFunctions[requestedTab].some(({ name }) => name === func) ? "custom" : requestedTab
+    handleTabChange(tab)
+    if (func !== null) {
+      setFunctionInput(func)
+      if (tab === "custom") setExpressionIssue(func.trim() ? validateExpression(func) : null)
     }
-  }
 
-  // Handle mouse up
-  const handleMouseUp = () => {
-    isDragging.current = false
+    const restoredParameters: Record<string, ParameterSetting> = {}
+    for (const name of findParameters(func ?? "")) {
+      const setting = readNumbers(params, `p.${name}`, 3)
+      if (!setting) continue
+      const [value, min, max] = setting
+      if (min < max) restoredParameters[name] = { value: Math.min(max, Math.max(min, value)), min, max }
+    }
+    setParameters(restoredParameters)
+    setFunctions(parseFunctionList(readJson(params, "cmp")))
+
+    const requestedMode = readChoice(params, "mode", MODES)
+    if (requestedMode) setMode(requestedMode)
+    view.restoreShared(params)
+    setShowCriticalPoints(readFlag(params, "cp") ?? false)
+    const speed = readNumber(params, "speed")
+    if (speed !== undefined) setAnimationSpeed(Math.min(3, Math.max(0.5, speed)))
+    pendingTangent.current = readNumber(params, "t") ?? null
+
+    const bounds = readNumbers(params, "ib", 2)
+    if (bounds) setIntegralBounds([bounds[0], bounds[1]])
+    const method = readChoice(params, "rm", Object.keys(RIEMANN_METHODS) as RiemannMethod[])
+    if (method) setRiemannMethod(method)
+    const n = readNumber(params, "rn")
+    if (n !== undefined) setRiemannN(Math.min(MAX_SUBINTERVALS, Math.max(1, Math.round(n))))
+
+    const secantX = readNumber(params, "sa")
+    if (secantX !== undefined) setSecantPoint(secantX)
+    const logStep = readNumber(params, "sh")
+    if (logStep !== undefined) setSecantLogStep(Math.min(MAX_LOG_STEP, Math.max(MIN_LOG_STEP, logStep)))
+    const side = readChoice(params, "ss", ["left", "right"] as const)
+    if (side) setSecantSide(side)
+
+    const center = readNumber(params, "tc")
+    if (center !== undefined) setTaylorCenter(center)
+    const degree = readNumber(params, "td")
+    if (degree !== undefined) setTaylorDegree(Math.min(MAX_TAYLOR_DEGREE, Math.max(0, Math.round(degree))))
   }
 
-  // Handle panning
-  const handlePan = (e) => {
-    if (!isDragging.current) return
-
-    const dx = e.clientX - lastMousePos.current.x
-    const dy = e.clientY - lastMousePos.current.y
-
-    // Convert screen pixels to coordinate system
-    const range = getEffectiveViewRange()
-    const xScale = (svgWidth - 80) / (range[1] - range[0])
-    const yScale = ((svgHeight - 80) / 20) * zoomLevel
-
-    setPanOffset((prev) => ({
-      x: prev.x - dx / xScale,
-      y: prev.y + dy,
-    }))
-
-    lastMousePos.current = { x: e.clientX, y: e.clientY }
+  // Pin the tangent from a shared link as soon as there is a curve to put it on
+  useEffect(() => {
+    const x = pendingTangent.current
+    if (x === null || points.length === 0) return
+    pendingTangent.current = null
+    if (probe.probeAt(x)) probe.setPinned(true)
+  }, [points])
+
+  // Everything needed to reopen this exact view, leaving out what is at its default
+  const shareParams = new URLSearchParams()
+  if (mode !== "derivative") shareParams.set("mode", mode)
+  if (activeTab !== "trig") shareParams.set("tab", activeTab)
+  if (activeTab === "custom" || functionInput !== predefinedFunctions[activeTab][0].name) {
+    shareParams.set("f", functionInput)
   }
-
-  // Handle wheel event for zooming
-  const handleWheel = (e) => {
-    e.preventDefault()
-
-    const delta = e.deltaY > 0 ? -0.1 : 0.1
-    const newZoom = Math.max(0.5, Math.min(5, zoomLevel + delta))
-
-    setZoomLevel(newZoom)
+  for (const name of parameterNames) {
+    const { value, min, max } = parameters[name] ?? DEFAULT_PARAMETER
+    shareParams.set(`p.${name}`, formatNumbers([value, min, max]))
   }
-
-  // Zoom in button
-  const handleZoomIn = () => {
-    setZoomLevel((prev) => Math.min(5, prev + 0.25))
+  if (functions.length > 0) shareParams.set("cmp", serializeFunctionList(functions))
+  view.writeShared(shareParams)
+  if (probe.pinned && probe.highlighted) shareParams.set("t", formatNumber(probe.point.x))
+  if (showCriticalPoints) shareParams.set("cp", "1")
+  if (animationSpeed !== 1) shareParams.set("speed", formatNumber(animationSpeed))
+  if (mode === "integral") {
+    shareParams.set("ib", formatNumbers(integralBounds))
+    if (riemannMethod) {
+      shareParams.set("rm", riemannMethod)
+      shareParams.set("rn", String(riemannN))
+    }
   }
-
-  // Zoom out button
-  const handleZoomOut = () => {
-    setZoomLevel((prev) => Math.max(0.5, prev - 0.25))
+  if (mode === "secant") {
+    shareParams.set("sa", formatNumber(secantPoint))
+    shareParams.set("sh", formatNumber(secantLogStep))
+    shareParams.set("ss", secantSide)
   }
-
-  // Reset view
-  const handleResetView = () => {
-    setZoomLevel(1)
-    setPanOffset({ x: 0, y: 0 })
+  if (mode === "taylor") {
+    shareParams.set("tc", formatNumber(taylorCenter))
+    shareParams.set("td", String(taylorDegree))
   }
-
-  // Handler for range slider
-  const handleRangeChange = (values) => {
-    setViewRange([values[0], values[1]])
+  const shareQuery = shareParams.toString()
+  useShareLink(shareQuery)
+
+  // f and f' at every sample of f, and the tangent there when one is shown
+  const getExportData = async (): Promise<DataTable | null> => {
+    const samples = points.flat()
+    if (samples.length === 0) return null
+    const slopes = await runInWorker({
+      kind: "values",
+      expr: symbolicDerivativeExpr ?? customFunction,
+      xs: samples.map((point) => point.x),
+      numericDerivative: !symbolicDerivativeExpr,
+    })
+    const { x, y, dy } = probe.point
+    return curveTable(samples, slopes, mode === "derivative" && probe.highlighted ? { x, y, slope: dy } : undefined)
   }
 
-  // Update calculations when zoom or pan changes
+  // Initial setup
   useEffect(() => {
-    calculateDerivative()
-  }, [customFunction, viewRange, activeTab, zoomLevel, panOffset]) // Corrected dependencies
-
-  // Initial setup and window resize handler
-  useEffect(() => {
-    handleTabChange("trig")
-
-    const handleResize = () => {
-      if (graphRef.current) {
-        setSvgWidth(graphRef.current.clientWidth)
-        setSvgHeight(graphRef.current.clientHeight)
-      }
-    }
-
-    handleResize()
-    window.addEventListener("resize", handleResize)
-
-    // Add global event listeners for drag operations
-    document.addEventListener("mouseup", handleMouseUp)
-    document.addEventListener("mousemove", handlePan)
-
-    return () => {
-      window.removeEventListener("resize", handleResize)
-      document.removeEventListener("mouseup", handleMouseUp)
-      document.removeEventListener("mousemove", handlePan)
-    }
-  }, []) // Removed unnecessary dependencies
+    restoreSharedView(new URLSearchParams(window.location.search))
+  }, [])
 
   // Generate axis labels based on the current view range
   const createAxisLabels = () => {
-    const range = getEffectiveViewRange()
-    const padding = 40
-    const graphWidth = svgWidth - 2 * padding
-    const graphHeight = svgHeight - 2 * padding
+    const range = view.range
+    const viewport = view.viewport
+    const { yRange } = viewport
+    const padding = GRAPH_PADDING
     const labels = []
+    // The x-axis labels stay at the edge when y = 0 is out of view
+    const axisY = Math.min(Math.max(mapToSVG({ x: 0, y: 0 }, viewport).y, padding), view.height - padding)
 
     // X-axis labels
-    const xStep = Math.ceil((range[1] - range[0]) / 10)
-    for (let x = Math.ceil(range[0] / xStep) * xStep; x <= range[1]; x += xStep) {
-      if (Math.abs(x) < 0.001) continue // Skip zero as it's the origin
+    const xStep = tickStep(range[1] - range[0])
+    for (let i = Math.ceil(range[0] / xStep); i * xStep <= range[1]; i++) {
+      const x = Number((i * xStep).toPrecision(12))
+      if (i === 0) continue // Skip zero as it's the origin
 
-      const svgX = mapToSVG({ x, y: 0 }).x
-      if (svgX >= padding && svgX <= svgWidth - padding) {
+      const svgX = mapToSVG({ x, y: 0 }, viewport).x
+      if (svgX >= padding && svgX <= view.width - padding) {
         labels.push(
           <g key={`x-${x}`}>
-            <line
-              x1={svgX}
-              y1={svgHeight / 2 + panOffset.y - 5}
-              x2={svgX}
-              y2={svgHeight / 2 + panOffset.y + 5}
-              stroke="#999"
-              strokeWidth="1"
-            />
-            <text x={svgX} y={svgHeight / 2 + panOffset.y + 20} textAnchor="middle" className="text-xs fill-current">
+            <line x1={svgX} y1={axisY - 5} x2={svgX} y2={axisY + 5} stroke={TICK_COLOR} strokeWidth="1" />
+            <text x={svgX} y={axisY + 20} textAnchor="middle" className="text-xs fill-current">
               {x}
             </text>
           </g>,
@@ -418,27 +533,26 @@ const DerivativeVisualizer = () => {
       }
     }
 
-    // Y-axis labels (based on zoom level)
-    const yRange = 10 / zoomLevel
-    const yStep = yRange <= 5 ? 1 : Math.ceil(yRange / 5)
+    // Y-axis labels
+    const yStep = tickStep(yRange[1] - yRange[0])
+    for (let i = Math.ceil(yRange[0] / yStep); i * yStep <= yRange[1]; i++) {
+      const y = Number((i * yStep).toPrecision(12))
+      if (i === 0) continue // Skip zero as it's the origin
 
-    for (let y = -Math.floor(10 / zoomLevel); y <= Math.floor(10 / zoomLevel); y += yStep) {
-      if (Math.abs(y) < 0.001) continue // Skip zero as it's the origin
-
-      const svgY = mapToSVG({ x: 0, y }).y
-      if (svgY >= padding && svgY <= svgHeight - padding) {
+      const svgY = mapToSVG({ x: 0, y }, viewport).y
+      if (svgY >= padding && svgY <= view.height - padding) {
         // Find the position of the y-axis on screen
-        const yAxisX = mapToSVG({ x: 0, y: 0 }).x
+        const yAxisX = mapToSVG({ x: 0, y: 0 }, viewport).x
         const textX =
-          yAxisX < padding || yAxisX > svgWidth - padding
+          yAxisX < padding || yAxisX > view.width - padding
             ? y > 0
               ? padding + 15
-              : svgWidth - padding - 15
+              : view.width - padding - 15
             : yAxisX + (y > 0 ? -15 : 15)
 
         labels.push(
           <g key={`y-${y}`}>
-            <line x1={yAxisX - 5} y1={svgY} x2={yAxisX + 5} y2={svgY} stroke="#999" strokeWidth="1" />
+            <line x1={yAxisX - 5} y1={svgY} x2={yAxisX + 5} y2={svgY} stroke={TICK_COLOR} strokeWidth="1" />
             <text x={textX} y={svgY + 5} textAnchor={y > 0 ? "end" : "start"} className="text-xs fill-current">
               {y}
             </text>
@@ -451,8 +565,8 @@ const DerivativeVisualizer = () => {
     labels.push(
       <text
         key="x-label"
-        x={svgWidth - padding}
-        y={svgHeight / 2 + panOffset.y - 10}
+        x={view.width - padding}
+        y={axisY - 10}
         textAnchor="end"
         className="text-sm font-semibold fill-current"
       >
@@ -463,7 +577,7 @@ const DerivativeVisualizer = () => {
     labels.push(
       <text
         key="y-label"
-        x={mapToSVG({ x: 0, y: 0 }).x + 15}
+        x={mapToSVG({ x: 0, y: 0 }, viewport).x + 15}
         y={padding}
         textAnchor="start"
         className="text-sm font-semibold fill-current"
@@ -476,13 +590,76 @@ const DerivativeVisualizer = () => {
   }
 
   const isMobile = useMediaQuery("(max-width: 640px)")
+  // Tablets are too wide for isMobile but still need the touch hints
+  const isTouch = useMediaQuery("(pointer: coarse)")
+  const viewport = view.viewport
+  // While a Riemann sum is shown the animation sweeps n instead of drawing the curve, growing n
+  // geometrically so the fast early convergence is not over in a blink
+  const isAnimatingRiemann = isAnimating && mode === "integral" && riemannMethod !== null
+  const displayedN = isAnimatingRiemann ? Math.max(1, Math.round(MAX_SUBINTERVALS ** animationProgress)) : riemannN
+  // In Taylor mode it adds one term at a time instead
+  const isAnimatingTaylor = isAnimating && mode === "taylor"
+  const displayedDegree = isAnimatingTaylor
+    ? Math.min(MAX_TAYLOR_DEGREE, Math.floor(animationProgress * (MAX_TAYLOR_DEGREE + 1)))
+    : taylorDegree
+  const taylorDegreeShown = taylor ? usableTaylorDegree(taylor.coefficients, displayedDegree) : -1
+  // In secant mode it shrinks h by the same factor each frame, from the largest step to the smallest
+  const isAnimatingSecant = isAnimating && mode === "secant"
+  const displayedLogStep = isAnimatingSecant
+    ? MAX_LOG_STEP - animationProgress * (MAX_LOG_STEP - MIN_LOG_STEP)
+    : secantLogStep
+  const curveProgress =
+    isAnimating && !isAnimatingRiemann && !isAnimatingTaylor && !isAnimatingSecant ? animationProgress : 1
+  // Only worked out again when the sum changes, not on every animation frame
+  const riemann = useMemo(
+    () =>
+      mode === "integral" && riemannMethod
+        ? riemannShapes(customFunction, integralBounds, displayedN, riemannMethod)
+        : null,
+    [mode, customFunction, integralBounds, displayedN, riemannMethod],
+  )
+  // Last line of the info box: F(x) when integrating, the Taylor polynomial in Taylor mode, otherwise f'(x)
+  const probeReading =
+    mode === "integral"
+      ? `F(x) = ${integral.antiderivative ? safeEval(integral.antiderivative, probe.point.x).toFixed(2) : "?"}`
+      : mode === "taylor"
+        ? `P_${taylorDegreeShown}(x) = ${
+            taylor && taylorDegreeShown >= 0
+              ? taylorPolynomial(taylor.coefficients, taylorCenter, taylorDegreeShown)(probe.point.x).toFixed(2)
+              : "?"
+          }`
+        : `f'(x) = ${probe.point.dy.toFixed(2)}`
 
   return (
     <Card className="w-full">
-      <CardHeader>
-        <CardTitle className="text-2xl font-bold text-center">Derivative Visualizer</CardTitle>
+      <CardHeader className="relative">
+        <div className="absolute top-4 left-4">
+          <Button asChild size="sm" variant="ghost">
+            <Link href="/rules">
+              <BookOpen className="h-4 w-4 mr-2" />
+              Derivative rules
+            </Link>
+          </Button>
+        </div>
+        <CardTitle className="text-2xl font-bold text-center">{MODE_TITLES[mode]}</CardTitle>
+        <div className="absolute top-4 right-4">
+          <ThemeToggle />
+        </div>
       </CardHeader>
       <CardContent>
+        <DerivativeTableWarning />
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as Mode)}
+          className="mb-4"
+        >
+          <ToggleGroupItem value="derivative">Derivative</ToggleGroupItem>
+          <ToggleGroupItem value="secant">Secant to Tangent</ToggleGroupItem>
+          <ToggleGroupItem value="integral">Integral</ToggleGroupItem>
+          <ToggleGroupItem value="taylor">Taylor Series</ToggleGroupItem>
+        </ToggleGroup>
         <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
           {isMobile ? (
             <Select value={activeTab} onValueChange={handleTabChange}>
@@ -507,7 +684,7 @@ const DerivativeVisualizer = () => {
             </TabsList>
           )}
 
-          {Object.keys(predefinedFunctions).map((tabKey) => (
+          {(Object.keys(predefinedFunctions) as Tab[]).map((tabKey) => (
             <TabsContent key={tabKey} value={tabKey} className="space-y-4">
               <div className="flex flex-col space-y-4">
                 <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-2 sm:space-y-0 sm:space-x-4">
@@ -515,22 +692,23 @@ const DerivativeVisualizer = () => {
                     Function:
                   </Label>
                   {tabKey === "custom" ? (
-                    <Input
+                    <ExpressionInput
                       id="custom-function"
-                      placeholder="Enter a function of x..."
-                      value={customFunction}
+                      placeholder="Enter a function of x, e.g. a*sin(b*x + c)"
+                      value={functionInput}
                       onChange={handleCustomFunctionChange}
+                      issue={expressionIssue}
                       className="flex-1"
                     />
                   ) : (
-                    <Select value={customFunction} onValueChange={handleFunctionChange}>
+                    <Select value={functionInput} onValueChange={handleFunctionChange}>
                       <SelectTrigger id={`${tabKey}-function`} className="flex-1">
                         <SelectValue placeholder="Select function" />
                       </SelectTrigger>
                       <SelectContent>
                         {predefinedFunctions[tabKey].map((func) => (
                           <SelectItem key={func.name} value={func.name}>
-                            {func.name}
+                            <MathExpression expr={func.name} />
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -541,27 +719,46 @@ const DerivativeVisualizer = () => {
                   </Button>
                 </div>
 
+                {tabKey === "custom" && (
+                  <ParameterSliders names={parameterNames} settings={parameters} onChange={handleParameterChange} />
+                )}
+
                 <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-2 sm:space-y-0 sm:space-x-4">
-                  <Label className="w-24">Derivative:</Label>
+                  <Label className="w-24">{mode === "integral" ? "Antiderivative:" : "Derivative:"}</Label>
                   <div className="flex-1 p-2 border rounded bg-muted">
-                    {activeTab === "custom" ? (
-                      derivedFunction
+                    {mode === "integral" ? (
+                      integral.antiderivative === undefined ? (
+                        "…"
+                      ) : integral.antiderivative ? (
+                        <MathExpression expr={`${integral.antiderivative} + C`} />
+                      ) : (
+                        "No antiderivative found"
+                      )
+                    ) : activeTab === "custom" ? (
+                      derivedFunction && <MathExpression expr={derivedFunction} />
                     ) : (
-                      <span>
-                        {predefinedFunctions[activeTab].find((f) => f.name === customFunction)?.derivative || ""}
-                      </span>
+                      <MathExpression
+                        expr={predefinedFunctions[activeTab].find((f) => f.name === customFunction)?.derivative || ""}
+                      />
                     )}
                   </div>
                 </div>
 
                 {errorMessage && <div className="text-red-500">{errorMessage}</div>}
+                {mode === "taylor" && taylorError && <div className="text-red-500">{taylorError}</div>}
 
                 {/* Animation controls */}
                 <div className="flex flex-col sm:flex-row items-center space-y-2 sm:space-y-0 sm:space-x-4 p-2 border rounded bg-muted">
                   <Button
                     size="sm"
                     variant={isAnimating ? "destructive" : "default"}
-                    onClick={() => setIsAnimating(!isAnimating)}
+                    onClick={() => {
+                      // Keep the n the animation stopped at
+                      if (isAnimatingRiemann) setRiemannN(displayedN)
+                      if (isAnimatingTaylor) setTaylorDegree(displayedDegree)
+                      if (isAnimatingSecant) setSecantLogStep(displayedLogStep)
+                      setIsAnimating(!isAnimating)
+                    }}
                     className="w-full sm:w-auto"
                   >
                     {isAnimating ? <Pause className="h-4 w-4 mr-2" /> : <Play className="h-4 w-4 mr-2" />}
@@ -585,161 +782,285 @@ const DerivativeVisualizer = () => {
                   </div>
 
                   <div className="flex items-center space-x-2">
-                    <Button size="sm" variant="outline" onClick={handleZoomIn}>
+                    <Switch id="critical-points" checked={showCriticalPoints} onCheckedChange={setShowCriticalPoints} />
+                    <Label htmlFor="critical-points" className="whitespace-nowrap">
+                      Critical points
+                    </Label>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Switch id="sonify" checked={probe.sonify} onCheckedChange={probe.setSonify} />
+                    <Label htmlFor="sonify" className="whitespace-nowrap">
+                      Sound
+                    </Label>
+                    <Button size="sm" variant="outline" onClick={probe.toggleCurve} disabled={!customFunction.trim()}>
+                      {probe.playing ? <Square className="h-4 w-4 mr-2" /> : <Volume2 className="h-4 w-4 mr-2" />}
+                      {probe.playing ? "Stop" : "Play curve"}
+                    </Button>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Button size="sm" variant="outline" onClick={view.zoomIn}>
                       <ZoomIn className="h-4 w-4" />
                     </Button>
-                    <Button size="sm" variant="outline" onClick={handleZoomOut}>
+                    <Button size="sm" variant="outline" onClick={view.zoomOut}>
                       <ZoomOut className="h-4 w-4" />
                     </Button>
-                    <Button size="sm" variant="outline" onClick={handleResetView}>
+                    <Button size="sm" variant="outline" onClick={view.resetView}>
                       <RefreshCw className="h-4 w-4" />
                     </Button>
-                    <span className="text-xs">{zoomLevel.toFixed(1)}x</span>
+                    <CopyLinkButton query={shareQuery} />
+                    <ExportMenu
+                      getSvg={() => gestures.svgRef.current}
+                      // The legend drawn on the graph only covers the main curves
+                      legend={functionLegend(functions)}
+                      getData={getExportData}
+                      details={{ function: customFunction, range: view.range }}
+                    />
+                    <span
+                      className="text-xs"
+                      title="Scroll to zoom at the cursor (Shift: x only, Alt: y only). Shift + drag to zoom into a box."
+                    >
+                      {view.zoom.x === view.zoom.y
+                        ? `${formatZoom(view.zoom.x)}x`
+                        : `x ${formatZoom(view.zoom.x)}x, y ${formatZoom(view.zoom.y)}x`}
+                    </span>
                   </div>
                 </div>
 
-                <div ref={graphRef} className="w-full h-[60vh] sm:h-[70vh] overflow-hidden">
-                  <svg
-                    width="100%"
-                    height="100%"
-                    className="border border-gray-300 rounded cursor-move"
-                    onMouseMove={handleMouseMove}
-                    onMouseLeave={handleMouseLeave}
-                    onMouseDown={handleMouseDown}
-                    onWheel={handleWheel}
+                <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+                  <div
+                    ref={view.graphRef}
+                    data-chart="graph"
+                    className="relative w-full h-[60vh] sm:h-[70vh] overflow-hidden lg:col-span-3"
                   >
-                    {/* Grid lines */}
-                    <line
-                      x1="0"
-                      y1={svgHeight / 2 + panOffset.y}
-                      x2={svgWidth}
-                      y2={svgHeight / 2 + panOffset.y}
-                      stroke="#ddd"
-                      strokeWidth="1"
-                    />
-
-                    {/* Vertical grid line */}
-                    {(() => {
-                      const range = getEffectiveViewRange()
-                      const centerX = 0
-                      const padding = 40
-                      const graphWidth = svgWidth - 2 * padding
-                      const xScale = graphWidth / (range[1] - range[0])
-                      const svgX = padding + (centerX - range[0]) * xScale
-
-                      if (svgX >= 0 && svgX <= svgWidth) {
-                        return <line x1={svgX} y1="0" x2={svgX} y2={svgHeight} stroke="#ddd" strokeWidth="1" />
-                      }
-                      return null
-                    })()}
-
-                    {/* Axis labels */}
-                    {createAxisLabels()}
-
-                    {/* Function path */}
-                    <path
-                      d={createPath(points, getEffectiveViewRange(), isAnimating)}
-                      fill="none"
-                      stroke="blue"
-                      strokeWidth="2"
-                    />
-
-                    {/* Derivative path */}
-                    <path
-                      d={createPath(derivativePoints, getEffectiveViewRange(), isAnimating)}
-                      fill="none"
-                      stroke="red"
-                      strokeWidth="2"
-                      strokeDasharray="5,5"
-                    />
-
-                    {/* Highlight point and tangent line */}
-                    {highlighted && !isAnimating && (
-                      <>
-                        {/* Point on function */}
-                        <circle
-                          cx={mapToSVG({ x: highlightPoint.x, y: highlightPoint.y }).x}
-                          cy={mapToSVG({ x: highlightPoint.x, y: highlightPoint.y }).y}
-                          r="5"
-                          fill="blue"
+                    <ChartStyle id="graph" config={GRAPH_COLORS} />
+                    <svg
+                      ref={gestures.ref}
+                      width="100%"
+                      height="100%"
+                      className="border rounded cursor-move touch-none select-none outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      role="application"
+                      aria-roledescription="graph"
+                      aria-labelledby="graph-title"
+                      aria-describedby="graph-description graph-keys"
+                      tabIndex={0}
+                      onKeyDown={probe.handleKeyDown}
+                      {...gestures.handlers}
+                    >
+                      <title id="graph-title">Graph of f(x) = {functionInput || "nothing yet"}</title>
+                      <desc id="graph-description">{summary.join(" ")}</desc>
+
+                      {/* Grid lines */}
+                      <line
+                        x1="0"
+                        y1={mapToSVG({ x: 0, y: 0 }, viewport).y}
+                        x2={view.width}
+                        y2={mapToSVG({ x: 0, y: 0 }, viewport).y}
+                        stroke={AXIS_COLOR}
+                        strokeWidth="1"
+                      />
+
+                      {/* Vertical grid line */}
+                      {(() => {
+                        const svgX = mapToSVG({ x: 0, y: 0 }, viewport).x
+
+                        if (svgX >= 0 && svgX <= view.width) {
+                          return (
+                            <line x1={svgX} y1="0" x2={svgX} y2={view.height} stroke={AXIS_COLOR} strokeWidth="1" />
+                          )
+                        }
+                        return null
+                      })()}
+
+                      {/* Axis labels */}
+                      {createAxisLabels()}
+
+                      {/* Signed area between the integration bounds */}
+                      {mode === "integral" && (
+                        <IntegralArea points={points} bounds={integralBounds} viewport={viewport} />
+                      )}
+
+                      {/* Riemann sum rectangles, trapezoids or parabolic strips */}
+                      {riemann && <RiemannOverlay shapes={riemann} viewport={viewport} />}
+
+                      {/* Compared functions and their derivatives */}
+                      {functions.map((func) => {
+                        const curve = comparedCurves[func.id]
+                        if (!func.visible || !curve) return null
+                        return (
+                          <g key={func.id} stroke={func.color} fill="none">
+                            <path
+                              d={createPath(curve.points, viewport)}
+                              strokeWidth="2"
+                              strokeDasharray={LINE_STYLES[func.lineStyle].dasharray}
+                            />
+                            {func.showDerivative && (
+                              <path
+                                d={createPath(curve.derivativePoints, viewport)}
+                                strokeWidth="1.5"
+                                strokeDasharray={derivativeDasharray(func.lineStyle)}
+                              />
+                            )}
+                          </g>
+                        )
+                      })}
+
+                      {/* Function path */}
+                      <path
+                        d={createPath(points, viewport, curveProgress)}
+                        fill="none"
+                        stroke={FUNCTION_COLOR}
+                        strokeWidth="2"
+                      />
+
+                      {/* Taylor partial sums, fading out the lower degrees, and the remainder of the last one */}
+                      {taylor && mode === "taylor" && taylorDegreeShown >= 0 && (
+                        <TaylorOverlay
+                          taylor={taylor}
+                          center={taylorCenter}
+                          degree={taylorDegreeShown}
+                          viewport={viewport}
                         />
+                      )}
+
+                      {/* Secant through (a, f(a)) and (a + h, f(a + h)) next to the tangent it approaches */}
+                      {mode === "secant" && (
+                        <SecantOverlay
+                          func={customFunction}
+                          derivative={symbolicDerivativeExpr}
+                          point={secantPoint}
+                          step={secantStep(displayedLogStep, secantSide)}
+                          viewport={viewport}
+                        />
+                      )}
+
+                      {/* Derivative path */}
+                      {mode === "derivative" && (
+                        <path
+                          d={createPath(derivativePoints, viewport, curveProgress)}
+                          fill="none"
+                          stroke={DERIVATIVE_COLOR}
+                          strokeWidth="2"
+                          strokeDasharray="5,5"
+                        />
+                      )}
+
+                      {/* Draggable integration bounds */}
+                      {mode === "integral" && (
+                        <IntegralBounds
+                          bounds={integralBounds}
+                          viewport={viewport}
+                          onDragStart={gestures.startBoundDrag}
+                        />
+                      )}
+
+                      {/* Extrema, saddles and inflection points */}
+                      {showCriticalPoints && criticalPoints && (
+                        <CriticalPointMarkers points={criticalPoints} viewport={viewport} />
+                      )}
+
+                      {/* Highlight point and tangent line */}
+                      {probe.highlighted && !isAnimating && (
+                        <ProbeOverlay
+                          probe={probe.point}
+                          pinned={probe.pinned}
+                          showTangent={mode === "derivative"}
+                          reading={probeReading}
+                          viewport={viewport}
+                        />
+                      )}
 
-                        {/* Tangent line */}
-                        {(() => {
-                          const centerX = highlightPoint.x
-                          const centerY = highlightPoint.y
-                          const slope = highlightPoint.dy
-
-                          const xRange = 2
-                          const x1 = centerX - xRange
-                          const y1 = centerY - slope * xRange
-                          const x2 = centerX + xRange
-                          const y2 = centerY + slope * xRange
-
-                          const p1 = mapToSVG({ x: x1, y: y1 })
-                          const p2 = mapToSVG({ x: x2, y: y2 })
-
-                          return <line x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke="green" strokeWidth="2" />
-                        })()}
+                      {/* Legend */}
+                      <GraphLegend
+                        items={[{ label: "Original Function", color: FUNCTION_COLOR }, ...MODE_LEGENDS[mode]]}
+                        height={view.height}
+                      />
 
-                        {/* Info box */}
+                      {/* Shift + drag zoom box */}
+                      {gestures.zoomBox && (
                         <rect
-                          x="10"
-                          y="10"
-                          width="180"
-                          height="80"
-                          fill="white"
-                          stroke="#ccc"
-                          strokeWidth="1"
-                          rx="4"
-                          ry="4"
-                          fillOpacity="0.9"
+                          x={Math.min(gestures.zoomBox.start.x, gestures.zoomBox.end.x)}
+                          y={Math.min(gestures.zoomBox.start.y, gestures.zoomBox.end.y)}
+                          width={Math.abs(gestures.zoomBox.end.x - gestures.zoomBox.start.x)}
+                          height={Math.abs(gestures.zoomBox.end.y - gestures.zoomBox.start.y)}
+                          fill={SELECTION_COLOR}
+                          fillOpacity="0.1"
+                          stroke={SELECTION_COLOR}
+                          strokeDasharray="4 2"
+                          pointerEvents="none"
+                        />
+                      )}
+                    </svg>
+                    <p className="absolute bottom-2 right-3 text-xs text-muted-foreground pointer-events-none">
+                      {isTouch
+                        ? "Drag to pan, pinch to zoom, long-press to pin the tangent"
+                        : "Scroll to zoom, Shift + drag to zoom into a box, hold still to pin the tangent"}
+                    </p>
+                    <p id="graph-keys" className="sr-only">
+                      Use the left and right arrow keys to move along the curve, with Shift for bigger steps. Home and
+                      End go to the edges and Escape hides the point.
+                    </p>
+                    <p aria-live="polite" className="sr-only">
+                      {probe.announcement}
+                    </p>
+                    {showSkeleton && <Skeleton className="absolute inset-0 opacity-60 pointer-events-none" />}
+                  </div>
+                  <div className="lg:max-h-[70vh] overflow-y-auto space-y-4">
+                    {showCriticalPoints && <CriticalPointsTable points={criticalPoints} />}
+                    {mode === "secant" ? (
+                      <SecantPanel
+                        func={customFunction}
+                        point={secantPoint}
+                        onPointChange={setSecantPoint}
+                        logStep={displayedLogStep}
+                        onLogStepChange={setSecantLogStep}
+                        side={secantSide}
+                        onSideChange={setSecantSide}
+                        slope={derivativeAt(customFunction, secantPoint, symbolicDerivativeExpr)}
+                        range={view.range}
+                        isAnimating={isAnimatingSecant}
+                      />
+                    ) : mode === "taylor" ? (
+                      <TaylorPanel
+                        center={taylorCenter}
+                        onCenterChange={setTaylorCenter}
+                        degree={displayedDegree}
+                        onDegreeChange={setTaylorDegree}
+                        coefficients={taylorExpansion ?? []}
+                        range={view.range}
+                        isAnimating={isAnimatingTaylor}
+                      />
+                    ) : mode === "integral" ? (
+                      <div className="space-y-4">
+                        <IntegralPanel
+                          func={customFunction}
+                          bounds={integralBounds}
+                          onBoundsChange={setIntegralBounds}
+                          value={integral.value}
+                          antiderivative={integral.antiderivative}
+                        />
+                        <RiemannPanel
+                          method={riemannMethod}
+                          onMethodChange={setRiemannMethod}
+                          n={displayedN}
+                          onNChange={setRiemannN}
+                          approximation={riemann?.reduce((sum, shape) => sum + shape.area, 0) ?? Number.NaN}
+                          exact={integral.value}
+                          isAnimating={isAnimatingRiemann}
                         />
-                        <text x="20" y="30" className="text-sm">
-                          x = {highlightPoint.x.toFixed(2)}
-                        </text>
-                        <text x="20" y="50" className="text-sm">
-                          f(x) = {highlightPoint.y.toFixed(2)}
-                        </text>
-                        <text x="20" y="70" className="text-sm">
-                          f'(x) = {highlightPoint.dy.toFixed(2)}
-                        </text>
-                      </>
+                      </div>
+                    ) : (
+                      <DerivationSteps func={functionInput} />
                     )}
-
-                    {/* Legend */}
-                    <rect
-                      x="10"
-                      y={svgHeight - 80}
-                      width="160"
-                      height="70"
-                      fill="white"
-                      stroke="#ccc"
-                      strokeWidth="1"
-                      rx="4"
-                      fillOpacity="0.9"
-                    />
-                    <line x1="20" y1={svgHeight - 60} x2="50" y2={svgHeight - 60} stroke="blue" strokeWidth="2" />
-                    <text x="60" y={svgHeight - 55} className="text-xs">
-                      Original Function
-                    </text>
-                    <line
-                      x1="20"
-                      y1={svgHeight - 40}
-                      x2="50"
-                      y2={svgHeight - 40}
-                      stroke="red"
-                      strokeWidth="2"
-                      strokeDasharray="5,5"
-                    />
-                    <text x="60" y={svgHeight - 35} className="text-xs">
-                      Derivative
-                    </text>
-                    <line x1="20" y1={svgHeight - 20} x2="50" y2={svgHeight - 20} stroke="green" strokeWidth="2" />
-                    <text x="60" y={svgHeight - 15} className="text-xs">
-                      Tangent Line
-                    </text>
-                  </svg>
+                    <FunctionList functions={functions} onChange={setFunctions} />
+                    {summary.length > 0 && (
+                      <div className="space-y-1 p-4 border rounded">
+                        <h3 className="font-semibold">Description</h3>
+                        <p className="text-sm text-muted-foreground">{summary.join(" ")}</p>
+                      </div>
+                    )}
+                  </div>
                 </div>
               </div>
             </TabsContent>
@@ -751,23 +1072,30 @@ const DerivativeVisualizer = () => {
           <Label className="w-24">X Range:</Label>
           <div className="flex-1">
             <Slider
-              value={viewRange}
+              value={view.viewRange}
               min={-20}
               max={20}
               step={1}
-              onValueChange={handleRangeChange}
+              onValueChange={(values) => view.setViewRange([values[0], values[1]])}
               className="w-full"
             />
           </div>
         </div>
         <div className="flex items-center space-x-4 text-sm text-muted-foreground">
-          <span>Min: {viewRange[0]}</span>
-          <span>Max: {viewRange[1]}</span>
+          <span>Min: {view.viewRange[0]}</span>
+          <span>Max: {view.viewRange[1]}</span>
         </div>
+        <WindowControls
+          xRange={view.range}
+          yRange={view.yRange}
+          onApply={view.applyWindow}
+          onFitY={handleFitY}
+          lockAspect={view.lockAspect}
+          onLockAspectChange={view.setLockAspect}
+        />
       </CardFooter>
     </Card>
   )
 }
 
 export default DerivativeVisualizer
-
@@ -0,0 +1,29 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import CalcVisualizer from "@/components/calc-visualizer"
+import ThemeToggle from "@/components/theme-toggle"
+
+export const metadata: Metadata = {
+  title: "Derivative rules",
+}
+
+// Worked examples of the differentiation rules, with higher-order derivatives and concavity on the graph
+export default function RulesPage() {
+  return (
+    <main className="container mx-auto space-y-4 p-4">
+      <div className="flex items-center justify-between">
+        <Button asChild size="sm" variant="ghost">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Visualizer
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold">Derivative rules</h1>
+        <ThemeToggle />
+      </div>
+      <CalcVisualizer />
+    </main>
+  )
+}
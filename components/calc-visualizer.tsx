@@ -1,103 +1,56 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
-import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Slider } from "@/components/ui/slider"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
 import { InfoIcon, RefreshCw } from "lucide-react"
 import DerivativeGraph from "@/components/derivative-graph"
-import { derivative, parse, simplify } from "mathjs"
+import CopyLinkButton from "@/components/copy-link-button"
+import CriticalPointsTable from "@/components/critical-points-table"
+import DerivationSteps from "@/components/derivation-steps"
+import ExpressionInput from "@/components/expression-input"
+import FunctionList, {
+  parseFunctionList,
+  serializeFunctionList,
+  type PlottedFunction,
+} from "@/components/function-list"
+import MathExpression, { MathText } from "@/components/math-expression"
+import ParameterSliders from "@/components/parameter-sliders"
+import {
+  bindParameters,
+  findParameters,
+  symbolicDerivative,
+  validateExpression,
+  DEFAULT_PARAMETER,
+  type ExpressionIssue,
+  type ParameterSetting,
+  type Range,
+} from "@/lib/calculus"
+import { examples, type Rule } from "@/lib/examples"
+import { useCriticalPoints } from "@/hooks/use-critical-points"
+import { useShareLink } from "@/hooks/use-share-link"
+import {
+  formatNumber,
+  formatNumbers,
+  readChoice,
+  readFlag,
+  readJson,
+  readNumber,
+  readNumbers,
+  readRange,
+} from "@/lib/share"
 
-type Rule = "trig" | "product" | "quotient" | "chain"
-
-interface DerivativeExample {
-  name: string
-  f: string
-  df: string
-  explanation: string
-  defaultDomain?: [number, number]
-}
-
-const examples: Record<Rule, DerivativeExample[]> = {
-  trig: [
-    {
-      name: "Sine",
-      f: "sin(x)",
-      df: "cos(x)",
-      explanation: "The derivative of sin(x) is cos(x)",
-      defaultDomain: [-2 * Math.PI, 2 * Math.PI],
-    },
-    {
-      name: "Cosine",
-      f: "cos(x)",
-      df: "-sin(x)",
-      explanation: "The derivative of cos(x) is -sin(x)",
-      defaultDomain: [-2 * Math.PI, 2 * Math.PI],
-    },
-    {
-      name: "Tangent",
-      f: "tan(x)",
-      df: "sec(x)^2",
-      explanation: "The derivative of tan(x) is sec²(x) or 1/cos²(x)",
-      defaultDomain: [-1.5, 1.5],
-    },
-  ],
-  product: [
-    {
-      name: "Product Rule",
-      f: "x * sin(x)",
-      df: "x * cos(x) + sin(x)",
-      explanation: "If f(x) = g(x) · h(x), then f'(x) = g'(x) · h(x) + g(x) · h'(x)",
-    },
-    {
-      name: "Polynomial × Trig",
-      f: "x^2 * cos(x)",
-      df: "2 * x * cos(x) - x^2 * sin(x)",
-      explanation: "Using the product rule: (x²)' · cos(x) + x² · (cos(x))'",
-    },
-  ],
-  quotient: [
-    {
-      name: "Quotient Rule",
-      f: "sin(x) / x",
-      df: "(x * cos(x) - sin(x)) / x^2",
-      explanation: "If f(x) = g(x)/h(x), then f'(x) = [g'(x)·h(x) - g(x)·h'(x)]/[h(x)]²",
-    },
-    {
-      name: "Rational Function",
-      f: "x / (x^2 + 1)",
-      df: "(x^2 + 1 - x * 2 * x) / (x^2 + 1)^2",
-      explanation: "Using the quotient rule: [(x²+1)·1 - x·2x]/[(x²+1)²]",
-    },
-  ],
-  chain: [
-    {
-      name: "Chain Rule",
-      f: "sin(x^2)",
-      df: "2 * x * cos(x^2)",
-      explanation: "If f(x) = g(h(x)), then f'(x) = g'(h(x)) · h'(x)",
-    },
-    {
-      name: "Nested Functions",
-      f: "sqrt(1 + x^2)",
-      df: "x / sqrt(1 + x^2)",
-      explanation: "Using the chain rule: (1/2)(1+x²)^(-1/2) · 2x",
-    },
-  ],
-}
-
-const formatFunction = (func: string) => {
-  return func
-    .replace(/\*/g, "·")
-    .replace(/sqrt/g, "√")
-    .replace(/\^2/g, "²")
-    .replace(/\^3/g, "³")
-    .replace(/\^(\d+)/g, "^($1)")
-}
+const DERIVATIVE_ORDERS = [
+  { order: 1, label: "f′" },
+  { order: 2, label: "f″" },
+  { order: 3, label: "f‴" },
+  { order: 4, label: "f⁽⁴⁾" },
+]
 
 export default function CalcVisualizer() {
   const [activeTab, setActiveTab] = useState<Rule>("trig")
@@ -105,10 +58,18 @@ export default function CalcVisualizer() {
   const [customDerivative, setCustomDerivative] = useState("")
   const [selectedExample, setSelectedExample] = useState(0)
   const [error, setError] = useState("")
-  const [domain, setDomain] = useState([-10, 10])
-  const [showDerivative, setShowDerivative] = useState(true)
+  const [expressionIssue, setExpressionIssue] = useState<ExpressionIssue | null>(null)
+  const [domain, setDomain] = useState<Range>([-10, 10])
+  // Orders of the derivatives drawn next to f
+  const [derivativeOrders, setDerivativeOrders] = useState<number[]>([1])
+  const [showConcavity, setShowConcavity] = useState(false)
   const [showTangentLine, setShowTangentLine] = useState(false)
+  const [showCriticalPoints, setShowCriticalPoints] = useState(false)
   const [tangentPoint, setTangentPoint] = useState(0)
+  const [parameters, setParameters] = useState<Record<string, ParameterSetting>>({})
+  const [functions, setFunctions] = useState<PlottedFunction[]>([])
+  // A shared link, applied once its tab is showing since switching tabs resets the view
+  const sharedView = useRef<URLSearchParams | null>(null)
 
   const calculateDerivative = (func: string) => {
     try {
@@ -117,34 +78,115 @@ export default function CalcVisualizer() {
         return
       }
 
-      const expr = parse(func)
-      const der = derivative(expr, "x")
-      const simplified = simplify(der).toString()
+      const issue = validateExpression(func)
+      setExpressionIssue(issue)
+      if (issue) {
+        setCustomDerivative("")
+        return
+      }
 
-      setCustomDerivative(simplified)
+      setCustomDerivative(symbolicDerivative(func))
       setError("")
     } catch (err) {
-      setError("Invalid function. Please check your syntax.")
+      setError(err instanceof Error ? `No symbolic derivative found: ${err.message}` : "Invalid function.")
       setCustomDerivative("")
     }
   }
 
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    sharedView.current = params
+    setActiveTab(readChoice(params, "tab", Object.keys(examples) as Rule[]) ?? "trig")
+  }, [])
+
+  // Everything but the tab of a shared link; whatever it leaves out or gets wrong keeps its default
+  const restoreSharedView = (params: URLSearchParams) => {
+    const example = readNumber(params, "ex")
+    if (example !== undefined && Number.isInteger(example) && examples[activeTab][example]) {
+      setSelectedExample(example)
+      setDomain(examples[activeTab][example].defaultDomain || [-10, 10])
+    }
+
+    const func = params.get("f")
+    if (func !== null) {
+      setCustomFunction(func)
+      calculateDerivative(func)
+    }
+    const restoredParameters: Record<string, ParameterSetting> = {}
+    for (const name of findParameters(func ?? "")) {
+      const setting = readNumbers(params, `p.${name}`, 3)
+      if (!setting) continue
+      const [value, min, max] = setting
+      if (min < max) restoredParameters[name] = { value: Math.min(max, Math.max(min, value)), min, max }
+    }
+    setParameters(restoredParameters)
+    setFunctions(parseFunctionList(readJson(params, "cmp")))
+
+    const range = readRange(params, "d")
+    if (range) setDomain(range)
+    const tangent = readNumber(params, "t")
+    setShowTangentLine(tangent !== undefined)
+    if (tangent !== undefined) setTangentPoint(tangent)
+    const orders = params.get("ord")
+    if (orders !== null) {
+      setDerivativeOrders(
+        DERIVATIVE_ORDERS.map(({ order }) => order).filter((order) => orders.split(",").includes(String(order))),
+      )
+    }
+    setShowConcavity(readFlag(params, "cc") ?? false)
+    setShowCriticalPoints(readFlag(params, "cp") ?? false)
+  }
+
   useEffect(() => {
     setSelectedExample(0)
     setCustomFunction("")
     setCustomDerivative("")
     setError("")
+    setExpressionIssue(null)
     const defaultDomain = examples[activeTab][0].defaultDomain || [-10, 10]
     setDomain(defaultDomain)
     setTangentPoint((defaultDomain[0] + defaultDomain[1]) / 2)
+
+    const params = sharedView.current
+    if (params && (readChoice(params, "tab", Object.keys(examples) as Rule[]) ?? "trig") === activeTab) {
+      sharedView.current = null
+      restoreSharedView(params)
+    }
   }, [activeTab])
 
   const currentExamples = examples[activeTab]
   const selectedExampleIndex = Math.min(selectedExample, currentExamples.length - 1)
   const currentExample = currentExamples[selectedExampleIndex]
 
-  const displayFunction = customFunction || currentExample.f
-  const displayDerivative = customFunction ? customDerivative : currentExample.df
+  // The graph sees the custom function with the slider values substituted for its parameters
+  const parameterNames = findParameters(customFunction)
+  const boundFunction = bindParameters(
+    customFunction,
+    Object.fromEntries(parameterNames.map((name) => [name, (parameters[name] ?? DEFAULT_PARAMETER).value])),
+  )
+  const displayFunction = boundFunction || currentExample.f
+  const parameterValues = Object.fromEntries(Object.entries(parameters).map(([name, { value }]) => [name, value]))
+  const comparedFunctions = functions.map((func) => ({ ...func, expr: bindParameters(func.expr, parameterValues) }))
+  const criticalPoints = useCriticalPoints(displayFunction, domain, showCriticalPoints)
+
+  // Everything needed to reopen this exact view, leaving out what is at its default
+  const shareParams = new URLSearchParams()
+  if (activeTab !== "trig") shareParams.set("tab", activeTab)
+  if (!customFunction && selectedExampleIndex !== 0) shareParams.set("ex", String(selectedExampleIndex))
+  if (customFunction) shareParams.set("f", customFunction)
+  for (const name of parameterNames) {
+    const { value, min, max } = parameters[name] ?? DEFAULT_PARAMETER
+    shareParams.set(`p.${name}`, formatNumbers([value, min, max]))
+  }
+  if (functions.length > 0) shareParams.set("cmp", serializeFunctionList(functions))
+  const defaultDomain = currentExample.defaultDomain || [-10, 10]
+  if (domain[0] !== defaultDomain[0] || domain[1] !== defaultDomain[1]) shareParams.set("d", formatNumbers(domain))
+  if (showTangentLine) shareParams.set("t", formatNumber(tangentPoint))
+  if (derivativeOrders.join(",") !== "1") shareParams.set("ord", derivativeOrders.join(","))
+  if (showConcavity) shareParams.set("cc", "1")
+  if (showCriticalPoints) shareParams.set("cp", "1")
+  const shareQuery = shareParams.toString()
+  useShareLink(shareQuery)
 
   const handleDomainChange = (value: number[]) => {
     setDomain([value[0], value[1]])
@@ -198,6 +240,7 @@ export default function CalcVisualizer() {
                         setCustomFunction("")
                         setCustomDerivative("")
                         setError("")
+                        setExpressionIssue(null)
                         setDomain(ex.defaultDomain || [-10, 10])
                         setTangentPoint((ex.defaultDomain?.[0] || -10 + ex.defaultDomain?.[1] || 10) / 2)
                       }}
@@ -210,12 +253,16 @@ export default function CalcVisualizer() {
                 <div className="space-y-4 mb-6">
                   <div>
                     <Label htmlFor="custom-function">Custom Function</Label>
-                    <div className="flex gap-2">
-                      <Input
+                    <div className="flex items-start gap-2">
+                      <ExpressionInput
                         id="custom-function"
-                        placeholder="e.g., x^2 * sin(x)"
+                        placeholder="e.g., x^2 * sin(x) or a*sin(b*x + c)"
                         value={customFunction}
-                        onChange={(e) => setCustomFunction(e.target.value)}
+                        onChange={(value) => {
+                          setCustomFunction(value)
+                          setExpressionIssue(value.trim() ? validateExpression(value) : null)
+                        }}
+                        issue={expressionIssue}
                         className="flex-1"
                       />
                       <Button variant="outline" onClick={() => calculateDerivative(customFunction)}>
@@ -229,10 +276,18 @@ export default function CalcVisualizer() {
                     )}
                   </div>
 
+                  <ParameterSliders
+                    names={parameterNames}
+                    settings={parameters}
+                    onChange={(name, setting) => setParameters((prev) => ({ ...prev, [name]: setting }))}
+                  />
+
                   {customFunction && customDerivative && (
                     <div className="p-4 bg-muted rounded-md">
                       <p className="font-medium">Derivative:</p>
-                      <p className="font-mono">{formatFunction(customDerivative)}</p>
+                      <p>
+                        <MathExpression expr={`f'(x) = ${customDerivative}`} />
+                      </p>
                     </div>
                   )}
 
@@ -241,9 +296,16 @@ export default function CalcVisualizer() {
                       <div className="flex items-start gap-2">
                         <InfoIcon className="h-5 w-5 text-primary shrink-0 mt-0.5" />
                         <div>
-                          <p className="font-medium">Function: f(x) = {formatFunction(currentExample.f)}</p>
-                          <p className="font-medium">Derivative: f'(x) = {formatFunction(currentExample.df)}</p>
-                          <p className="text-sm text-muted-foreground mt-2">{currentExample.explanation}</p>
+                          <p className="font-medium">
+                            Function: <MathExpression expr={`f(x) = ${currentExample.f}`} />
+                          </p>
+                          <p className="font-medium">
+                            Derivative: <MathExpression expr={`f'(x) = ${currentExample.df}`} />
+                          </p>
+                          <MathText
+                            text={currentExample.explanation}
+                            className="block text-sm text-muted-foreground mt-2"
+                          />
                         </div>
                       </div>
                     </div>
@@ -263,12 +325,27 @@ export default function CalcVisualizer() {
                       >
                         <RefreshCw className="h-4 w-4 mr-1" /> Reset
                       </Button>
+                      <CopyLinkButton query={shareQuery} />
+                      <ToggleGroup
+                        type="multiple"
+                        size="sm"
+                        variant="outline"
+                        aria-label="Derivatives to plot"
+                        value={derivativeOrders.map(String)}
+                        onValueChange={(value) => setDerivativeOrders(value.map(Number).sort((a, b) => a - b))}
+                      >
+                        {DERIVATIVE_ORDERS.map(({ order, label }) => (
+                          <ToggleGroupItem key={order} value={String(order)} aria-label={`Order ${order}`}>
+                            {label}
+                          </ToggleGroupItem>
+                        ))}
+                      </ToggleGroup>
                       <Button
-                        variant={showDerivative ? "default" : "outline"}
+                        variant={showConcavity ? "default" : "outline"}
                         size="sm"
-                        onClick={() => setShowDerivative(!showDerivative)}
+                        onClick={() => setShowConcavity(!showConcavity)}
                       >
-                        {showDerivative ? "Hide Derivative" : "Show Derivative"}
+                        {showConcavity ? "Hide Concavity" : "Show Concavity"}
                       </Button>
                       <Button
                         variant={showTangentLine ? "default" : "outline"}
@@ -277,6 +354,13 @@ export default function CalcVisualizer() {
                       >
                         {showTangentLine ? "Hide Tangent" : "Show Tangent"}
                       </Button>
+                      <Button
+                        variant={showCriticalPoints ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setShowCriticalPoints(!showCriticalPoints)}
+                      >
+                        {showCriticalPoints ? "Hide Critical Points" : "Show Critical Points"}
+                      </Button>
                     </div>
                   </div>
 
@@ -305,15 +389,24 @@ export default function CalcVisualizer() {
                     </div>
                   )}
 
-                  <div className="h-[400px] mt-6">
-                    <DerivativeGraph
-                      func={displayFunction}
-                      derivative={displayDerivative}
-                      domain={domain}
-                      showDerivative={showDerivative}
-                      showTangentLine={showTangentLine}
-                      tangentPoint={tangentPoint}
-                    />
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
+                    <div className="h-[400px] md:col-span-2">
+                      <DerivativeGraph
+                        func={displayFunction}
+                        orders={derivativeOrders}
+                        domain={domain}
+                        showTangentLine={showTangentLine}
+                        tangentPoint={tangentPoint}
+                        criticalPoints={showCriticalPoints ? criticalPoints : null}
+                        showConcavity={showConcavity}
+                        functions={comparedFunctions}
+                      />
+                    </div>
+                    <div className="md:max-h-[400px] overflow-y-auto space-y-4">
+                      {showCriticalPoints && <CriticalPointsTable points={criticalPoints} />}
+                      <DerivationSteps func={displayFunction} />
+                      <FunctionList functions={functions} onChange={setFunctions} />
+                    </div>
                   </div>
                 </div>
               </CardContent>
@@ -0,0 +1,34 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Check, Link } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { shareUrl } from "@/lib/share"
+
+type CopyStatus = "idle" | "copied" | "failed"
+
+// Copies a link that reopens the page with the state encoded in query
+export default function CopyLinkButton({ query }: { query: string }) {
+  const [status, setStatus] = useState<CopyStatus>("idle")
+
+  // Go back to the plain label after a moment
+  useEffect(() => {
+    if (status === "idle") return
+    const timer = setTimeout(() => setStatus("idle"), 2000)
+    return () => clearTimeout(timer)
+  }, [status])
+
+  const handleCopy = () => {
+    navigator.clipboard
+      .writeText(shareUrl(query))
+      .then(() => setStatus("copied"))
+      .catch(() => setStatus("failed"))
+  }
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleCopy} aria-live="polite">
+      {status === "copied" ? <Check className="h-4 w-4 mr-2" /> : <Link className="h-4 w-4 mr-2" />}
+      {status === "copied" ? "Copied" : status === "failed" ? "Copy failed" : "Copy link"}
+    </Button>
+  )
+}
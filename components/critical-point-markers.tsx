@@ -0,0 +1,38 @@
+"use client"
+
+import { CRITICAL_POINT_COLORS, CRITICAL_POINT_LABELS } from "@/components/critical-points-table"
+import { PANEL_COLOR } from "@/components/graph-colors"
+import { mapToSVG, type CriticalPoint, type Viewport } from "@/lib/calculus"
+
+// Labelled dots on the extrema, saddles and inflection points that are in view
+export default function CriticalPointMarkers({ points, viewport }: { points: CriticalPoint[]; viewport: Viewport }) {
+  return (
+    <>
+      {points.map((point) => {
+        const { x, y } = mapToSVG(point, viewport)
+        if (y < 0 || y > viewport.height) return null
+        return (
+          <g key={`${point.kind}-${point.x}`}>
+            <circle
+              cx={x}
+              cy={y}
+              r="5"
+              fill={CRITICAL_POINT_COLORS[point.kind]}
+              stroke={PANEL_COLOR}
+              strokeWidth="1.5"
+            />
+            <text
+              x={x}
+              y={point.kind === "min" ? y + 18 : y - 10}
+              textAnchor="middle"
+              className="text-xs"
+              fill={CRITICAL_POINT_COLORS[point.kind]}
+            >
+              {CRITICAL_POINT_LABELS[point.kind]}
+            </text>
+          </g>
+        )
+      })}
+    </>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CRITICAL_POINT_NAMES, type CriticalPoint, type CriticalPointKind } from "@/lib/calculus"
+
+export const CRITICAL_POINT_COLORS: Record<CriticalPointKind, string> = {
+  max: "rgb(220 38 38)",
+  min: "rgb(37 99 235)",
+  saddle: "rgb(124 58 237)",
+  inflection: "rgb(5 150 105)",
+}
+
+export const CRITICAL_POINT_LABELS: Record<CriticalPointKind, string> = {
+  max: "max",
+  min: "min",
+  saddle: "saddle",
+  inflection: "infl.",
+}
+
+// Coordinates of the points the curve-sketching markers point at
+export default function CriticalPointsTable({ points }: { points: CriticalPoint[] | null }) {
+  return (
+    <div className="space-y-2 p-4 border rounded">
+      <h3 className="font-semibold">Critical points</h3>
+      {points === null ? (
+        <p className="text-sm text-muted-foreground">Searching…</p>
+      ) : points.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No extrema or inflection points in the visible range.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Type</TableHead>
+              <TableHead>x</TableHead>
+              <TableHead>f(x)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody className="text-xs">
+            {points.map((point) => (
+              <TableRow key={`${point.kind}-${point.x}`}>
+                <TableCell>
+                  <span className="flex items-center gap-2">
+                    <span
+                      className="inline-block h-2.5 w-2.5 rounded-full"
+                      style={{ backgroundColor: CRITICAL_POINT_COLORS[point.kind] }}
+                    />
+                    {CRITICAL_POINT_NAMES[point.kind]}
+                  </span>
+                </TableCell>
+                <TableCell className="font-mono">{point.x.toFixed(4)}</TableCell>
+                <TableCell className="font-mono">{point.y.toFixed(4)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+"use client"
+
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
+import MathExpression, { MathText } from "@/components/math-expression"
+import { useDerivationSteps } from "@/hooks/use-derivation-steps"
+import { RULE_FORMULAS, RULE_NAMES } from "@/lib/calculus"
+
+interface DerivationStepsProps {
+  func: string
+}
+
+export default function DerivationSteps({ func }: DerivationStepsProps) {
+  const steps = useDerivationSteps(func)
+
+  if (!steps) {
+    return <p className="text-sm text-muted-foreground">Working out the steps…</p>
+  }
+  if (steps.length === 0) {
+    return <p className="text-sm text-muted-foreground">No derivation steps available for this function.</p>
+  }
+
+  return (
+    <div>
+      <p className="font-medium">Step by step</p>
+      <Accordion type="multiple" defaultValue={["step-0"]}>
+        {steps.map((step, idx) => (
+          <AccordionItem key={idx} value={`step-${idx}`}>
+            <AccordionTrigger className="py-2 text-left text-sm" style={{ paddingLeft: `${step.depth}rem` }}>
+              <span>
+                {RULE_NAMES[step.rule]} on <MathExpression expr={step.expression} />
+              </span>
+            </AccordionTrigger>
+            <AccordionContent style={{ paddingLeft: `${step.depth}rem` }}>
+              <MathText text={RULE_FORMULAS[step.rule]} className="block text-muted-foreground" />
+              {step.details.length > 0 && (
+                <ul className="mt-1">
+                  {step.details.map((detail, i) => (
+                    <li key={i}>
+                      <MathExpression expr={detail} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="mt-1">
+                <MathExpression expr={`(${step.expression})' = ${step.result}`} />
+              </p>
+            </AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </div>
+  )
+}
@@ -1,90 +1,187 @@
 "use client"
 
-import { useState, useEffect, useMemo } from "react"
-import { evaluate } from "mathjs"
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts"
-import { ChartContainer } from "@/components/ui/chart"
+import { useState, useEffect, useRef } from "react"
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceDot,
+} from "recharts"
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart"
 import { Skeleton } from "@/components/ui/skeleton"
+import { CRITICAL_POINT_COLORS, CRITICAL_POINT_LABELS } from "@/components/critical-points-table"
+import ExportMenu from "@/components/export-menu"
+import { derivativeDasharray, LINE_STYLES, type PlottedFunction } from "@/components/function-list"
+import { isAbortError, runInWorker, type CriticalPoint, type Range } from "@/lib/calculus"
+import type { DataTable, LegendEntry } from "@/lib/export"
+
+// d1, d2, ... hold the derivative of that order at x, f<id> and df<id> a compared function and its derivative
+type GraphDatum = {
+  x: number
+  y: number | null
+  tangent: number
+} & Record<`d${number}` | `f${number}` | `df${number}`, number | null>
 
 interface DerivativeGraphProps {
   func: string
-  derivative: string
-  domain: [number, number]
-  showDerivative: boolean
+  // Orders of the derivatives to plot, e.g. [1, 2] for f' and f''
+  orders: number[]
+  domain: Range
   showTangentLine: boolean
   tangentPoint: number
+  criticalPoints?: CriticalPoint[] | null
+  // Shade where f'' > 0 and where f'' < 0
+  showConcavity?: boolean
+  // Further functions drawn on the same axes
+  functions?: PlottedFunction[]
+}
+
+// A stretch of the domain where f is concave up or concave down
+interface ConcavityInterval {
+  from: number
+  to: number
+  up: boolean
+}
+
+const PRIMES = ["", "′", "″", "‴"]
+
+export const derivativeLabel = (order: number) => (order < PRIMES.length ? `f${PRIMES[order]}(x)` : `f⁽${order}⁾(x)`)
+
+const DERIVATIVE_COLORS = ["hsl(var(--chart-2))", "hsl(var(--chart-4))"]
+
+const derivativeColor = (order: number) => DERIVATIVE_COLORS[order - 1] ?? `hsl(${(300 + 47 * order) % 360} 70% 45%)`
+
+// Runs of rows with the same sign of f'', split halfway between the rows where the sign flips
+const concavityIntervals = (data: GraphDatum[]): ConcavityInterval[] => {
+  const intervals: ConcavityInterval[] = []
+  let previous: GraphDatum | undefined
+
+  for (const row of data) {
+    const value = row.d2
+    if (value === null || value === undefined || value === 0) {
+      previous = undefined
+      continue
+    }
+
+    const up = value > 0
+    const last = intervals[intervals.length - 1]
+    if (previous && last && last.up === up) {
+      last.to = row.x
+    } else {
+      const from = previous ? (previous.x + row.x) / 2 : row.x
+      if (previous && last) last.to = from
+      intervals.push({ from, to: row.x, up })
+    }
+    previous = row
+  }
+  return intervals
 }
 
 export default function DerivativeGraph({
   func,
-  derivative,
+  orders,
   domain,
-  showDerivative,
   showTangentLine,
   tangentPoint,
+  criticalPoints,
+  showConcavity = false,
+  functions = [],
 }: DerivativeGraphProps) {
-  const [data, setData] = useState<Array<{ x: number; y: number; dy: number; tangent?: number }>>([])
+  const [data, setData] = useState<GraphDatum[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState("")
+  // Series switched off from the legend
+  const [hidden, setHidden] = useState<Set<string>>(new Set())
+  const chartRef = useRef<HTMLDivElement>(null)
+
+  // Concavity needs f'' even when it is not plotted
+  const sampledOrders = [...new Set([...orders, ...(showConcavity ? [2] : [])])].sort((a, b) => a - b).join(",")
+  const compared = functions.filter((other) => other.visible)
+  // Styling changes should not resample the compared functions
+  const comparedKey = compared
+    .map(({ id, expr, showDerivative }) => `${id}:${showDerivative ? "1" : "0"}:${expr}`)
+    .join("\n")
+
+  useEffect(() => {
+    if (!func) {
+      setData([])
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    setError("")
+
+    const controller = new AbortController()
+    const { signal } = controller
+    const derivativeOrders = sampledOrders ? sampledOrders.split(",").map(Number) : []
 
-  const generateData = useMemo(() => {
-    return () => {
-      try {
-        if (!func) {
-          setData([])
-          setLoading(false)
-          return
-        }
-
-        setLoading(true)
-        setError("")
-
-        const [min, max] = domain
-        const points = 1000
-        const step = (max - min) / points
-
-        const newData: Array<{ x: number; y: number; dy: number; tangent?: number }> = []
-
-        const tangentSlope = evaluate(derivative, { x: tangentPoint })
-        const tangentIntercept = evaluate(func, { x: tangentPoint }) - tangentSlope * tangentPoint
-
-        for (let i = 0; i <= points; i++) {
-          const x = min + i * step
-
-          try {
-            // Evaluate the function at x
-            const y = evaluate(func, { x })
-
-            // Evaluate the derivative at x if available
-            let dy = null
-            if (derivative) {
-              dy = evaluate(derivative, { x })
-            }
-
-            // Calculate the tangent line
-            const tangent = tangentSlope * x + tangentIntercept
-
-            // Only add valid points (not Infinity or NaN)
-            if (isFinite(y) && (!dy || isFinite(dy))) {
-              newData.push({ x, y, dy: dy || 0, tangent })
-            }
-          } catch (err) {
-            // Skip points where evaluation fails
+    Promise.all([
+      runInWorker({ kind: "curve", expr: func, range: domain, options: { initialSamples: 500 } }, { signal }),
+      runInWorker({ kind: "values", expr: func, xs: [tangentPoint] }, { signal }),
+      runInWorker({ kind: "values", expr: func, xs: [tangentPoint], derivativeOrder: 1 }, { signal }),
+    ])
+      .then(async ([segments, [tangentY], [slope]]) => {
+        const intercept = tangentY - slope * tangentPoint
+        const xs = segments.flat().map((point) => point.x)
+        // Evaluate every derivative at every sample
+        const derivativeValues = await Promise.all(
+          derivativeOrders.map((order) =>
+            runInWorker({ kind: "values", expr: func, xs, derivativeOrder: order }, { signal }),
+          ),
+        )
+        // Compared functions are evaluated on the same grid so they share the rows
+        const comparedValues = await Promise.all(
+          compared.map(({ expr, showDerivative }) =>
+            Promise.all([
+              runInWorker({ kind: "values", expr, xs }, { signal }),
+              showDerivative ? runInWorker({ kind: "values", expr, xs, derivativeOrder: 1 }, { signal }) : [],
+            ]),
+          ),
+        )
+        const finite = (value: number | undefined) => (value !== undefined && isFinite(value) ? value : null)
+
+        const newData: GraphDatum[] = []
+        let i = 0
+        segments.forEach((segment, segmentIndex) => {
+          // A row without values makes Recharts break the line across the discontinuity
+          if (segmentIndex > 0) {
+            const x = (newData[newData.length - 1].x + segment[0].x) / 2
+            const gap: GraphDatum = { x, y: null, tangent: slope * x + intercept }
+            derivativeOrders.forEach((order) => (gap[`d${order}`] = null))
+            compared.forEach(({ id }) => (gap[`f${id}`] = gap[`df${id}`] = null))
+            newData.push(gap)
+          }
+
+          for (const { x, y } of segment) {
+            const row: GraphDatum = { x, y, tangent: slope * x + intercept }
+            derivativeOrders.forEach((order, k) => (row[`d${order}`] = finite(derivativeValues[k][i])))
+            compared.forEach(({ id }, k) => {
+              row[`f${id}`] = finite(comparedValues[k][0][i])
+              row[`df${id}`] = finite(comparedValues[k][1][i])
+            })
+            newData.push(row)
+            i++
           }
-        }
+        })
 
         setData(newData)
         setLoading(false)
-      } catch (err) {
-        setError("Error generating graph data")
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return
+        setError(err instanceof Error ? err.message : "Error generating graph data")
         setLoading(false)
-      }
-    }
-  }, [func, derivative, domain, tangentPoint])
+      })
 
-  useEffect(() => {
-    generateData()
-  }, [generateData])
+    return () => controller.abort()
+  }, [func, sampledOrders, comparedKey, domain, tangentPoint])
 
   if (loading) {
     return <Skeleton className="w-full h-full" />
@@ -102,85 +199,221 @@ export default function DerivativeGraph({
     )
   }
 
-  const chartConfig = {
+  const chartConfig: ChartConfig = {
     function: {
       label: `f(x)`,
       color: "hsl(var(--chart-1))",
     },
-    derivative: {
-      label: `f'(x)`,
-      color: "hsl(var(--chart-2))",
-    },
+    ...Object.fromEntries(
+      orders.map((order) => [`derivative${order}`, { label: derivativeLabel(order), color: derivativeColor(order) }]),
+    ),
     tangent: {
       label: `Tangent`,
       color: "hsl(var(--chart-3))",
     },
+    // Shading where f'' > 0 and where f'' < 0
+    "concave-up": {
+      label: "Concave up",
+      theme: { light: "rgb(34 197 94)", dark: "rgb(74 222 128)" },
+    },
+    "concave-down": {
+      label: "Concave down",
+      theme: { light: "rgb(239 68 68)", dark: "rgb(248 113 113)" },
+    },
+    ...Object.fromEntries(
+      compared.flatMap((other) => [
+        [`function${other.id}`, { label: other.expr, color: other.color }],
+        [`derivative-of-${other.id}`, { label: `(${other.expr})′`, color: other.color }],
+      ]),
+    ),
   }
 
+  // Recharts draws its legend outside the SVG, so exported images get one of their own
+  const exportLegend: LegendEntry[] = [
+    { label: "f(x)", color: "var(--color-function)" },
+    ...orders.map((order) => ({
+      label: derivativeLabel(order),
+      color: `var(--color-derivative${order})`,
+      dasharray: order === 1 ? "5 5" : `${2 * order} 3`,
+    })),
+    ...(showTangentLine ? [{ label: "Tangent", color: "var(--color-tangent)" }] : []),
+    ...compared.flatMap((other) => [
+      { label: other.expr, color: other.color, dasharray: LINE_STYLES[other.lineStyle].dasharray },
+      ...(other.showDerivative
+        ? [{ label: `(${other.expr})′`, color: other.color, dasharray: derivativeDasharray(other.lineStyle) }]
+        : []),
+    ]),
+  ]
+
+  // The rows between segments only break the lines, so they are left out
+  const exportData = (): DataTable => ({
+    columns: [
+      "x",
+      "f(x)",
+      ...orders.map(derivativeLabel),
+      ...(showTangentLine ? [`tangent at x = ${tangentPoint.toFixed(2)}`] : []),
+    ],
+    rows: data
+      .filter((row) => row.y !== null)
+      .map((row) => [
+        row.x,
+        row.y,
+        ...orders.map((order) => row[`d${order}`]),
+        ...(showTangentLine ? [row.tangent] : []),
+      ]),
+  })
+
+  const toggleSeries = (name: string) =>
+    setHidden((prev) => {
+      const next = new Set(prev)
+      if (!next.delete(name)) next.add(name)
+      return next
+    })
+
   return (
-    <ChartContainer config={chartConfig} className="w-full h-full">
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-          <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
-          <XAxis
-            dataKey="x"
-            domain={[domain[0], domain[1]]}
-            type="number"
-            tickCount={10}
-            label={{ value: "x", position: "insideBottomRight", offset: -5 }}
-          />
-          <YAxis domain={["auto", "auto"]} label={{ value: "y", angle: -90, position: "insideLeft" }} />
-          <Tooltip
-            content={({ active, payload, label }) => {
-              if (active && payload && payload.length) {
-                return (
-                  <div className="bg-background border border-border p-2 rounded shadow">
-                    <p className="font-semibold">x: {Number(label).toFixed(2)}</p>
-                    <p>f(x): {payload[0].value.toFixed(4)}</p>
-                    {showDerivative && <p>f'(x): {payload[1].value.toFixed(4)}</p>}
-                    {showTangentLine && <p>Tangent: {payload[2].value.toFixed(4)}</p>}
-                  </div>
-                )
-              }
-              return null
-            }}
-          />
-          <Legend />
-          <Line
-            type="monotone"
-            dataKey="y"
-            name="function"
-            stroke="var(--color-function)"
-            dot={false}
-            activeDot={{ r: 6 }}
-            strokeWidth={2}
-          />
-          {showDerivative && derivative && (
-            <Line
-              type="monotone"
-              dataKey="dy"
-              name="derivative"
-              stroke="var(--color-derivative)"
-              dot={false}
-              activeDot={{ r: 6 }}
-              strokeWidth={2}
-              strokeDasharray="5 5"
+    <div className="relative w-full h-full">
+      <div className="absolute top-0 right-0 z-10">
+        <ExportMenu
+          getSvg={() => chartRef.current?.querySelector<SVGSVGElement>("svg.recharts-surface")}
+          legend={exportLegend}
+          getData={exportData}
+          details={{ function: func, domain }}
+        />
+      </div>
+      <ChartContainer ref={chartRef} config={chartConfig} className="w-full h-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+            <XAxis
+              dataKey="x"
+              domain={[domain[0], domain[1]]}
+              type="number"
+              tickCount={10}
+              label={{ value: "x", position: "insideBottomRight", offset: -5 }}
+            />
+            <YAxis domain={["auto", "auto"]} label={{ value: "y", angle: -90, position: "insideLeft" }} />
+            {showConcavity &&
+              concavityIntervals(data).map((interval) => (
+                <ReferenceArea
+                  key={interval.from}
+                  x1={interval.from}
+                  x2={interval.to}
+                  fill={interval.up ? "var(--color-concave-up)" : "var(--color-concave-down)"}
+                  fillOpacity={0.08}
+                  label={{ value: interval.up ? "∪" : "∩", position: "insideTop", fontSize: 14 }}
+                />
+              ))}
+            <Tooltip
+              content={({ active, payload, label }) => {
+                if (active && payload && payload.length) {
+                  return (
+                    <div className="bg-background border border-border p-2 rounded shadow">
+                      <p className="font-semibold">x: {Number(label).toFixed(2)}</p>
+                      {payload
+                        .filter((item) => typeof item.value === "number")
+                        .map((item) => (
+                          <p key={item.name}>
+                            {chartConfig[String(item.name)]?.label ?? item.name}: {Number(item.value).toFixed(4)}
+                          </p>
+                        ))}
+                    </div>
+                  )
+                }
+                return null
+              }}
+            />
+            {/* Clicking a legend entry hides or shows its curve */}
+            <Legend
+              onClick={(entry) => toggleSeries(String(entry.value))}
+              formatter={(name: string) => (
+                <span className={hidden.has(name) ? "cursor-pointer line-through opacity-50" : "cursor-pointer"}>
+                  {chartConfig[name]?.label ?? name}
+                </span>
+              )}
             />
-          )}
-          {showTangentLine && (
             <Line
               type="monotone"
-              dataKey="tangent"
-              name="tangent"
-              stroke="var(--color-tangent)"
+              dataKey="y"
+              name="function"
+              stroke="var(--color-function)"
               dot={false}
               activeDot={{ r: 6 }}
               strokeWidth={2}
+              hide={hidden.has("function")}
             />
-          )}
-        </LineChart>
-      </ResponsiveContainer>
-    </ChartContainer>
+            {orders.map((order) => (
+              <Line
+                key={order}
+                type="monotone"
+                dataKey={`d${order}`}
+                name={`derivative${order}`}
+                stroke={`var(--color-derivative${order})`}
+                dot={false}
+                activeDot={{ r: 6 }}
+                strokeWidth={2}
+                strokeDasharray={order === 1 ? "5 5" : `${2 * order} 3`}
+                hide={hidden.has(`derivative${order}`)}
+              />
+            ))}
+            {compared.map((other) => (
+              <Line
+                key={other.id}
+                type="monotone"
+                dataKey={`f${other.id}`}
+                name={`function${other.id}`}
+                stroke={other.color}
+                dot={false}
+                strokeWidth={2}
+                strokeDasharray={LINE_STYLES[other.lineStyle].dasharray}
+                hide={hidden.has(`function${other.id}`)}
+              />
+            ))}
+            {compared
+              .filter((other) => other.showDerivative)
+              .map((other) => (
+                <Line
+                  key={`derivative-${other.id}`}
+                  type="monotone"
+                  dataKey={`df${other.id}`}
+                  name={`derivative-of-${other.id}`}
+                  stroke={other.color}
+                  dot={false}
+                  strokeWidth={1.5}
+                  strokeDasharray={derivativeDasharray(other.lineStyle)}
+                  hide={hidden.has(`derivative-of-${other.id}`)}
+                />
+              ))}
+            {showTangentLine && (
+              <Line
+                type="monotone"
+                dataKey="tangent"
+                name="tangent"
+                stroke="var(--color-tangent)"
+                dot={false}
+                activeDot={{ r: 6 }}
+                strokeWidth={2}
+                hide={hidden.has("tangent")}
+              />
+            )}
+            {criticalPoints?.map((point) => (
+              <ReferenceDot
+                key={`${point.kind}-${point.x}`}
+                x={point.x}
+                y={point.y}
+                r={5}
+                fill={CRITICAL_POINT_COLORS[point.kind]}
+                stroke="hsl(var(--background))"
+                label={{
+                  value: CRITICAL_POINT_LABELS[point.kind],
+                  position: point.kind === "min" ? "bottom" : "top",
+                  fill: CRITICAL_POINT_COLORS[point.kind],
+                  fontSize: 12,
+                }}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </ChartContainer>
+    </div>
   )
 }
-
@@ -0,0 +1,42 @@
+"use client"
+
+import { useMemo } from "react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { AlertTriangle } from "lucide-react"
+import { isVerified } from "@/lib/calculus"
+import { verifyDerivativeTables } from "@/lib/examples"
+
+// Dev-only banner listing hand-written derivatives that disagree with mathjs
+export default function DerivativeTableWarning() {
+  const failures = useMemo(
+    () =>
+      process.env.NODE_ENV === "development" ? verifyDerivativeTables().filter((check) => !isVerified(check)) : [],
+    [],
+  )
+
+  if (failures.length === 0) return null
+
+  return (
+    <Alert variant="destructive" className="mb-4">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Derivative table check failed (dev only)</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4">
+          {failures.map((check) => (
+            <li key={`${check.f}|${check.df}`}>
+              <span className="font-mono">
+                ({check.f})' = {check.df}
+              </span>
+              {check.error
+                ? ` could not be checked: ${check.error}`
+                : ` is wrong at x = ${check.mismatches
+                    .slice(0, 5)
+                    .map((m) => m.x.toFixed(3))
+                    .join(", ")}${check.mismatches.length > 5 ? ` and ${check.mismatches.length - 5} more` : ""}`}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  download,
+  rasterize,
+  standaloneSvg,
+  tableToCsv,
+  tableToJson,
+  type DataTable,
+  type LegendEntry,
+} from "@/lib/export"
+
+// Pixel multiples offered for PNG exports
+const PNG_SCALES = [1, 2, 4]
+
+interface ExportMenuProps {
+  getSvg: () => SVGSVGElement | null | undefined
+  // Curves to name in the exported image that the graph does not label itself
+  legend?: LegendEntry[]
+  getData: () => DataTable | null | Promise<DataTable | null>
+  // Stored alongside the points in JSON exports
+  details?: Record<string, unknown>
+  filename?: string
+}
+
+// Save the graph as SVG or PNG, or its sampled points as CSV or JSON
+export default function ExportMenu({ getSvg, legend = [], getData, details, filename = "graph" }: ExportMenuProps) {
+  const [error, setError] = useState("")
+  // Size of the graph on screen, measured as the menu opens
+  const [size, setSize] = useState({ width: 0, height: 0 })
+
+  // Go back to the plain label after a moment
+  useEffect(() => {
+    if (!error) return
+    const timer = setTimeout(() => setError(""), 3000)
+    return () => clearTimeout(timer)
+  }, [error])
+
+  const run = (task: () => Promise<void> | void) => {
+    setError("")
+    Promise.resolve()
+      .then(task)
+      .catch((e) => setError(e instanceof Error ? e.message : "Export failed"))
+  }
+
+  const exportImage = (scale?: number) =>
+    run(async () => {
+      const svg = getSvg()
+      if (!svg) throw new Error("Nothing to export")
+      const { markup, width, height } = standaloneSvg(svg, legend)
+      if (scale === undefined) {
+        download(markup, `${filename}.svg`, "image/svg+xml")
+      } else {
+        download(await rasterize(markup, width, height, scale), `${filename}.png`)
+      }
+    })
+
+  const exportData = (format: "csv" | "json") =>
+    run(async () => {
+      const table = await getData()
+      if (!table || table.rows.length === 0) throw new Error("No points to export")
+      if (format === "csv") {
+        // The byte order mark makes spreadsheets read the primes in f′ as UTF-8
+        download(`\uFEFF${tableToCsv(table)}`, `${filename}.csv`, "text/csv;charset=utf-8")
+      } else {
+        download(tableToJson(table, details), `${filename}.json`, "application/json")
+      }
+    })
+
+  return (
+    <DropdownMenu
+      onOpenChange={(open) => {
+        const rect = open ? getSvg()?.getBoundingClientRect() : undefined
+        if (rect) setSize({ width: Math.round(rect.width), height: Math.round(rect.height) })
+      }}
+    >
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" aria-live="polite">
+          <Download className="h-4 w-4 mr-2" />
+          {error || "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Image</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => exportImage()}>SVG</DropdownMenuItem>
+        {PNG_SCALES.map((scale) => (
+          <DropdownMenuItem key={scale} onSelect={() => exportImage(scale)}>
+            PNG {size.width * scale} × {size.height * scale}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Sampled points</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => exportData("csv")}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportData("json")}>JSON</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import type { ChangeEvent } from "react"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import type { ExpressionIssue } from "@/lib/calculus"
+
+interface ExpressionInputProps {
+  id: string
+  value: string
+  onChange: (value: string) => void
+  issue: ExpressionIssue | null
+  placeholder?: string
+  className?: string
+}
+
+// Text input for a function of x that points at the part of the input an issue refers to
+export default function ExpressionInput({ id, value, onChange, issue, placeholder, className }: ExpressionInputProps) {
+  const messageId = `${id}-issue`
+  const span = issue?.span
+
+  return (
+    <div className={cn("flex flex-col gap-1", className)}>
+      <Input
+        id={id}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e: ChangeEvent<HTMLInputElement>) => onChange(e.target.value)}
+        aria-invalid={issue ? true : undefined}
+        aria-describedby={issue ? messageId : undefined}
+        className={cn("font-mono", issue && issue.kind !== "domain" && "border-red-500")}
+      />
+      {issue && (
+        <div id={messageId} role="alert" className="text-sm">
+          {span && (
+            <pre className="font-mono whitespace-pre-wrap break-all text-muted-foreground" aria-hidden="true">
+              {value.slice(0, span[0])}
+              {/* An empty span marks a missing token at the end of the input */}
+              <mark className="rounded-sm bg-red-200 text-red-900 underline decoration-wavy decoration-red-500">
+                {value.slice(span[0], span[1]) || " "}
+              </mark>
+              {value.slice(span[1])}
+            </pre>
+          )}
+          <p className={issue.kind === "domain" ? "text-amber-600" : "text-red-500"}>{issue.message}</p>
+        </div>
+      )}
+    </div>
+  )
+}
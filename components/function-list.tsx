@@ -0,0 +1,181 @@
+"use client"
+
+import { useState } from "react"
+import { Eye, EyeOff, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Toggle } from "@/components/ui/toggle"
+import ExpressionInput from "@/components/expression-input"
+import { validateExpression, type ExpressionIssue } from "@/lib/calculus"
+import type { LegendEntry } from "@/lib/export"
+
+export type LineStyle = "solid" | "dashed" | "dotted"
+
+export const LINE_STYLES: Record<LineStyle, { label: string; dasharray?: string }> = {
+  solid: { label: "Solid" },
+  dashed: { label: "Dashed", dasharray: "8 4" },
+  dotted: { label: "Dotted", dasharray: "2 4" },
+}
+
+// Handed out in turn to newly added functions
+export const FUNCTION_COLORS = ["#16a34a", "#9333ea", "#ea580c", "#0891b2", "#db2777", "#ca8a04"]
+
+// A function drawn for comparison alongside the main one
+export interface PlottedFunction {
+  id: number
+  expr: string
+  color: string
+  visible: boolean
+  showDerivative: boolean
+  lineStyle: LineStyle
+}
+
+// Everything but the ids, which are only meaningful within one session
+export const serializeFunctionList = (functions: PlottedFunction[]) =>
+  JSON.stringify(functions.map(({ id, ...func }) => func))
+
+// The functions of a shared link, skipping entries that are not well formed
+export const parseFunctionList = (value: unknown): PlottedFunction[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(
+      (func) =>
+        typeof func?.expr === "string" &&
+        typeof func.color === "string" &&
+        /^#[0-9a-f]{6}$/i.test(func.color) &&
+        typeof func.visible === "boolean" &&
+        typeof func.showDerivative === "boolean" &&
+        Object.keys(LINE_STYLES).includes(func.lineStyle) &&
+        validateExpression(func.expr) === null,
+    )
+    .map(({ expr, color, visible, showDerivative, lineStyle }, index) => ({
+      id: index + 1,
+      expr,
+      color,
+      visible,
+      showDerivative,
+      lineStyle,
+    }))
+
+interface FunctionListProps {
+  functions: PlottedFunction[]
+  onChange: (functions: PlottedFunction[]) => void
+}
+
+// The derivative of a curve is drawn in the same colour with a thinner line
+export const derivativeDasharray = (lineStyle: LineStyle) => (lineStyle === "dashed" ? "3 3" : "6 3")
+
+// Legend entries for the visible functions and the derivatives shown with them, for exports
+export const functionLegend = (functions: PlottedFunction[]): LegendEntry[] =>
+  functions
+    .filter((func) => func.visible)
+    .flatMap((func) => [
+      { label: func.expr, color: func.color, dasharray: LINE_STYLES[func.lineStyle].dasharray },
+      ...(func.showDerivative
+        ? [{ label: `(${func.expr})′`, color: func.color, dasharray: derivativeDasharray(func.lineStyle) }]
+        : []),
+    ])
+
+// Add, remove and style the functions drawn for comparison
+export default function FunctionList({ functions, onChange }: FunctionListProps) {
+  const [input, setInput] = useState("")
+  const [issue, setIssue] = useState<ExpressionIssue | null>(null)
+
+  const update = (id: number, changes: Partial<PlottedFunction>) =>
+    onChange(functions.map((func) => (func.id === id ? { ...func, ...changes } : func)))
+
+  const add = () => {
+    const problem = validateExpression(input)
+    setIssue(problem)
+    if (problem) return
+
+    const id = Math.max(0, ...functions.map((func) => func.id)) + 1
+    const color = FUNCTION_COLORS[functions.length % FUNCTION_COLORS.length]
+    onChange([
+      ...functions,
+      { id, expr: input.trim(), color, visible: true, showDerivative: false, lineStyle: "solid" },
+    ])
+    setInput("")
+  }
+
+  return (
+    <div className="space-y-2 p-4 border rounded">
+      <h3 className="font-semibold">Compare functions</h3>
+      <form
+        className="flex items-start gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          add()
+        }}
+      >
+        <ExpressionInput
+          id="compare-function"
+          placeholder="e.g. sin(2x)"
+          value={input}
+          onChange={(value) => {
+            setInput(value)
+            setIssue(value.trim() ? validateExpression(value) : null)
+          }}
+          issue={issue}
+          className="flex-1"
+        />
+        <Button type="submit" size="sm" variant="outline" aria-label="Add function" disabled={!input.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {functions.map((func) => (
+        <div key={func.id} className="flex items-center gap-1">
+          <input
+            type="color"
+            aria-label={`Colour of ${func.expr}`}
+            value={func.color}
+            onChange={(e) => update(func.id, { color: e.target.value })}
+            className="h-6 w-6 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+          />
+          <span
+            className={`flex-1 truncate font-mono text-sm ${func.visible ? "" : "text-muted-foreground line-through"}`}
+            title={func.expr}
+          >
+            {func.expr}
+          </span>
+          <Button
+            size="sm"
+            variant="ghost"
+            aria-label={func.visible ? `Hide ${func.expr}` : `Show ${func.expr}`}
+            onClick={() => update(func.id, { visible: !func.visible })}
+          >
+            {func.visible ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+          </Button>
+          <Toggle
+            size="sm"
+            aria-label={`Derivative of ${func.expr}`}
+            pressed={func.showDerivative}
+            onPressedChange={(showDerivative) => update(func.id, { showDerivative })}
+          >
+            f′
+          </Toggle>
+          <Select value={func.lineStyle} onValueChange={(value) => update(func.id, { lineStyle: value as LineStyle })}>
+            <SelectTrigger className="h-8 w-24" aria-label={`Line style of ${func.expr}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(LINE_STYLES) as LineStyle[]).map((style) => (
+                <SelectItem key={style} value={style}>
+                  {LINE_STYLES[style].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="ghost"
+            aria-label={`Remove ${func.expr}`}
+            onClick={() => onChange(functions.filter((other) => other.id !== func.id))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
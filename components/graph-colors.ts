@@ -0,0 +1,38 @@
+import type { ChartConfig } from "@/components/ui/chart"
+
+// Colours of the graph in each theme, available inside it as --color-<name>
+export const GRAPH_COLORS: ChartConfig = {
+  function: { theme: { light: "blue", dark: "rgb(96 165 250)" } },
+  derivative: { theme: { light: "red", dark: "rgb(248 113 113)" } },
+  tangent: { theme: { light: "green", dark: "rgb(74 222 128)" } },
+  secant: { theme: { light: "rgb(234 88 12)", dark: "rgb(251 146 60)" } },
+  taylor: { theme: { light: "purple", dark: "rgb(192 132 252)" } },
+  remainder: { theme: { light: "rgb(217 119 6)", dark: "rgb(251 191 36)" } },
+  "positive-area": { theme: { light: "rgb(59 130 246)", dark: "rgb(96 165 250)" } },
+  "negative-area": { theme: { light: "rgb(249 115 22)", dark: "rgb(251 146 60)" } },
+  axis: { theme: { light: "#ddd", dark: "#475569" } },
+  tick: { theme: { light: "#999", dark: "#64748b" } },
+  guide: { theme: { light: "#888", dark: "#94a3b8" } },
+  bound: { theme: { light: "#555", dark: "#cbd5e1" } },
+  // Info box, legend and the inside of hollow markers
+  panel: { color: "hsl(var(--card))" },
+  "panel-border": { theme: { light: "#ccc", dark: "#334155" } },
+  selection: { color: "hsl(var(--primary))" },
+}
+
+// The colours above as they are referenced inside the graph
+export const FUNCTION_COLOR = "var(--color-function)"
+export const DERIVATIVE_COLOR = "var(--color-derivative)"
+export const TANGENT_COLOR = "var(--color-tangent)"
+export const POSITIVE_AREA_COLOR = "var(--color-positive-area)"
+export const NEGATIVE_AREA_COLOR = "var(--color-negative-area)"
+export const TAYLOR_COLOR = "var(--color-taylor)"
+export const REMAINDER_COLOR = "var(--color-remainder)"
+export const SECANT_COLOR = "var(--color-secant)"
+export const AXIS_COLOR = "var(--color-axis)"
+export const TICK_COLOR = "var(--color-tick)"
+export const GUIDE_COLOR = "var(--color-guide)"
+export const BOUND_COLOR = "var(--color-bound)"
+export const PANEL_COLOR = "var(--color-panel)"
+export const PANEL_BORDER_COLOR = "var(--color-panel-border)"
+export const SELECTION_COLOR = "var(--color-selection)"
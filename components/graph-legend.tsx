@@ -0,0 +1,58 @@
+"use client"
+
+import { PANEL_BORDER_COLOR, PANEL_COLOR } from "@/components/graph-colors"
+
+export interface GraphLegendItem {
+  label: string
+  color: string
+  strokeWidth?: number
+  dasharray?: string
+  // Shown as a shaded swatch of this opacity instead of a line
+  fillOpacity?: number
+}
+
+const ROW_HEIGHT = 20
+
+// Key to the curves and areas on the graph, in the bottom left corner of a graph height pixels tall
+export default function GraphLegend({ items, height }: { items: GraphLegendItem[]; height: number }) {
+  const top = height - ROW_HEIGHT * (items.length + 1)
+
+  return (
+    <>
+      <rect
+        x="10"
+        y={top}
+        width="160"
+        height={ROW_HEIGHT * items.length + 10}
+        fill={PANEL_COLOR}
+        stroke={PANEL_BORDER_COLOR}
+        strokeWidth="1"
+        rx="4"
+        fillOpacity="0.9"
+      />
+      {items.map(({ label, color, strokeWidth = 2, dasharray, fillOpacity }, i) => {
+        const y = top + ROW_HEIGHT * (i + 1)
+        return (
+          <g key={label}>
+            {fillOpacity === undefined ? (
+              <line
+                x1="20"
+                y1={y}
+                x2="50"
+                y2={y}
+                stroke={color}
+                strokeWidth={strokeWidth}
+                strokeDasharray={dasharray}
+              />
+            ) : (
+              <rect x="20" y={y - 6} width="30" height="12" fill={color} fillOpacity={fillOpacity} />
+            )}
+            <text x="60" y={y + 5} className="text-xs fill-current">
+              {label}
+            </text>
+          </g>
+        )
+      })}
+    </>
+  )
+}
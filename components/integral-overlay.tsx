@@ -0,0 +1,61 @@
+"use client"
+
+import type { PointerEvent } from "react"
+import { BOUND_COLOR, NEGATIVE_AREA_COLOR, PANEL_COLOR, POSITIVE_AREA_COLOR } from "@/components/graph-colors"
+import { createAreaPaths, mapToSVG, type Point, type Range, type Viewport } from "@/lib/calculus"
+
+interface IntegralAreaProps {
+  // Sampled segments of f
+  points: Point[][]
+  bounds: Range
+  viewport: Viewport
+}
+
+// Signed area between the integration bounds, shaded differently above and below the x-axis
+export default function IntegralArea({ points, bounds, viewport }: IntegralAreaProps) {
+  const { positive, negative } = createAreaPaths(points, [Math.min(...bounds), Math.max(...bounds)], viewport)
+
+  return (
+    <>
+      <path d={positive} fill={POSITIVE_AREA_COLOR} fillOpacity="0.3" stroke="none" />
+      <path d={negative} fill={NEGATIVE_AREA_COLOR} fillOpacity="0.4" stroke="none" />
+    </>
+  )
+}
+
+interface IntegralBoundsProps {
+  bounds: Range
+  viewport: Viewport
+  onDragStart: (index: 0 | 1) => (e: PointerEvent) => void
+}
+
+// Lines at a and b that can be dragged along the x-axis, with a wide invisible stroke to grab them by
+export function IntegralBounds({ bounds, viewport, onDragStart }: IntegralBoundsProps) {
+  const axisY = mapToSVG({ x: 0, y: 0 }, viewport).y
+
+  return (
+    <>
+      {bounds.map((bound, index) => {
+        const { x } = mapToSVG({ x: bound, y: 0 }, viewport)
+        return (
+          <g key={index} className="cursor-ew-resize" onPointerDown={onDragStart(index as 0 | 1)}>
+            <line x1={x} y1="0" x2={x} y2={viewport.height} stroke="transparent" strokeWidth="12" />
+            <line
+              x1={x}
+              y1="0"
+              x2={x}
+              y2={viewport.height}
+              stroke={BOUND_COLOR}
+              strokeWidth="1.5"
+              strokeDasharray="4,4"
+            />
+            <circle cx={x} cy={axisY} r="6" fill={PANEL_COLOR} stroke={BOUND_COLOR} strokeWidth="2" />
+            <text x={x} y={viewport.padding / 2} textAnchor="middle" className="text-xs fill-current">
+              {index === 0 ? "a" : "b"} = {bound}
+            </text>
+          </g>
+        )
+      })}
+    </>
+  )
+}
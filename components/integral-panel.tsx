@@ -0,0 +1,101 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import MathExpression from "@/components/math-expression"
+import { safeEval, type Range } from "@/lib/calculus"
+
+interface IntegralPanelProps {
+  func: string
+  bounds: Range
+  onBoundsChange: (bounds: Range) => void
+  // undefined while the worker is still integrating
+  value: number | undefined
+  // undefined while the worker is still looking for one, null when it found none
+  antiderivative: string | null | undefined
+}
+
+const format = (value: number) => (Math.abs(value) < 1e-10 ? "0" : value.toFixed(6).replace(/\.?0+$/, ""))
+
+// Bounds, numeric value and antiderivative for the definite integral shown on the graph
+export default function IntegralPanel({ func, bounds, onBoundsChange, value, antiderivative }: IntegralPanelProps) {
+  const [a, b] = bounds
+
+  const handleBoundChange = (index: 0 | 1, input: string) => {
+    const bound = Number.parseFloat(input)
+    if (!isFinite(bound)) return
+    onBoundsChange(index === 0 ? [bound, b] : [a, bound])
+  }
+
+  return (
+    <div className="space-y-4 p-4 border rounded">
+      <h3 className="font-semibold">Definite integral</h3>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="lower-bound">Lower bound a</Label>
+          <Input
+            id="lower-bound"
+            type="number"
+            step={0.1}
+            value={a}
+            onChange={(e) => handleBoundChange(0, e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="upper-bound">Upper bound b</Label>
+          <Input
+            id="upper-bound"
+            type="number"
+            step={0.1}
+            value={b}
+            onChange={(e) => handleBoundChange(1, e.target.value)}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">Drag the dashed lines on the graph to move the bounds.</p>
+
+      <div className="p-2 border rounded bg-muted text-sm">
+        ∫ from {format(a)} to {format(b)} of <MathExpression expr={func || "f(x)"} /> dx{" "}
+        {value === undefined ? "…" : isNaN(value) ? "is undefined" : `≈ ${format(value)}`}
+      </div>
+      {value !== undefined && isNaN(value) && (
+        <p className="text-sm text-amber-600">
+          f(x) is undefined or unbounded somewhere between the bounds, so the integral may not exist.
+        </p>
+      )}
+
+      <div className="space-y-1">
+        <Label>Antiderivative</Label>
+        {antiderivative === undefined ? (
+          <p className="text-sm text-muted-foreground">…</p>
+        ) : antiderivative ? (
+          <div className="space-y-1 text-sm">
+            <p>
+              <MathExpression expr={`F(x) = ${antiderivative} + C`} />
+            </p>
+            {/* F(b) - F(a) is meaningless across a pole, where F is not an antiderivative on all of [a, b] */}
+            {value !== undefined && !isNaN(value) && (
+              <p className="text-muted-foreground">
+                F(b) - F(a) = {format(safeEval(antiderivative, b) - safeEval(antiderivative, a))}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No antiderivative found by the built-in rules; the value above is computed numerically.
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-1 text-xs">
+        <span className="flex items-center gap-2">
+          <span className="inline-block h-3 w-3 rounded-sm bg-blue-500/30" /> Area above the x-axis counts as positive
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="inline-block h-3 w-3 rounded-sm bg-orange-500/40" /> Area below the x-axis counts as negative
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+"use client"
+
+import { createElement, useMemo, type ReactNode } from "react"
+import { cn } from "@/lib/utils"
+import { typeset, type MathMLElement } from "@/lib/calculus"
+
+// MathML elements are not among React's typed intrinsics, so they are created by tag name
+const render = (node: MathMLElement | string): ReactNode =>
+  typeof node === "string" ? node : createElement(node.tag, null, ...node.children.map(render))
+
+interface MathExpressionProps {
+  // An expression, or an equation such as f'(x) = 2 * x
+  expr: string
+  className?: string
+}
+
+// expr typeset as MathML, or as plain text when it does not parse
+export default function MathExpression({ expr, className }: MathExpressionProps) {
+  const tree = useMemo(() => typeset(expr), [expr])
+  if (!tree) return <span className={cn("font-mono", className)}>{expr}</span>
+  return <span className={className}>{render(tree)}</span>
+}
+
+// Prose with the math between $ signs typeset inline
+export function MathText({ text, className }: { text: string; className?: string }) {
+  return (
+    <span className={className}>
+      {text.split(/\$([^$]+)\$/).map((part, i) => (i % 2 === 1 ? <MathExpression key={i} expr={part} /> : part))}
+    </span>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { DEFAULT_PARAMETER, type ParameterSetting } from "@/lib/calculus"
+
+interface ParameterSlidersProps {
+  // Parameters found in the expression, in display order
+  names: string[]
+  settings: Record<string, ParameterSetting>
+  onChange: (name: string, setting: ParameterSetting) => void
+}
+
+const round = (value: number) => Number(value.toPrecision(6))
+
+// One slider per free parameter, with editable bounds for its range
+export default function ParameterSliders({ names, settings, onChange }: ParameterSlidersProps) {
+  if (names.length === 0) return null
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-2 border rounded">
+      {names.map((name) => {
+        const setting = settings[name] ?? DEFAULT_PARAMETER
+        const update = (changes: Partial<ParameterSetting>) => onChange(name, { ...setting, ...changes })
+
+        return (
+          <div key={name} className="space-y-2">
+            <Label htmlFor={`parameter-${name}`} className="font-mono">
+              {name} = {round(setting.value)}
+            </Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                aria-label={`Minimum of ${name}`}
+                value={setting.min}
+                onChange={(e) => {
+                  const min = Number.parseFloat(e.target.value)
+                  if (isFinite(min) && min < setting.max) update({ min, value: Math.max(setting.value, min) })
+                }}
+                className="w-20"
+              />
+              <Slider
+                id={`parameter-${name}`}
+                value={[setting.value]}
+                min={setting.min}
+                max={setting.max}
+                step={(setting.max - setting.min) / 100}
+                onValueChange={(value) => update({ value: round(value[0]) })}
+                className="flex-1"
+              />
+              <Input
+                type="number"
+                aria-label={`Maximum of ${name}`}
+                value={setting.max}
+                onChange={(e) => {
+                  const max = Number.parseFloat(e.target.value)
+                  if (isFinite(max) && max > setting.min) update({ max, value: Math.min(setting.value, max) })
+                }}
+                className="w-20"
+              />
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
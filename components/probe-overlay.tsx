@@ -0,0 +1,58 @@
+"use client"
+
+import MathExpression from "@/components/math-expression"
+import { FUNCTION_COLOR, PANEL_BORDER_COLOR, PANEL_COLOR, TANGENT_COLOR } from "@/components/graph-colors"
+import type { ProbeReading } from "@/hooks/use-graph-probe"
+import { mapToSVG, type Viewport } from "@/lib/calculus"
+
+// The tangent reaches this fraction of the visible x range to each side, whatever the zoom
+const TANGENT_REACH = 0.15
+
+interface ProbeOverlayProps {
+  probe: ProbeReading
+  pinned: boolean
+  showTangent: boolean
+  // Last line of the info box, such as f'(x) = 0.54
+  reading: string
+  viewport: Viewport
+}
+
+// The probed point on f, ringed while pinned, the tangent there and an info box with the readings.
+// The box is typeset in HTML, which exports leave out.
+export default function ProbeOverlay({ probe, pinned, showTangent, reading, viewport }: ProbeOverlayProps) {
+  const center = mapToSVG(probe, viewport)
+  const reach = TANGENT_REACH * (viewport.range[1] - viewport.range[0])
+  const p1 = mapToSVG({ x: probe.x - reach, y: probe.y - probe.dy * reach }, viewport)
+  const p2 = mapToSVG({ x: probe.x + reach, y: probe.y + probe.dy * reach }, viewport)
+
+  return (
+    <>
+      <circle cx={center.x} cy={center.y} r="5" fill={FUNCTION_COLOR} />
+      {pinned && <circle cx={center.x} cy={center.y} r="9" fill="none" stroke={FUNCTION_COLOR} strokeWidth="1.5" />}
+
+      {showTangent && <line x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke={TANGENT_COLOR} strokeWidth="2" />}
+
+      <g data-export="omit">
+        <rect
+          x="10"
+          y="10"
+          width="180"
+          height="80"
+          fill={PANEL_COLOR}
+          stroke={PANEL_BORDER_COLOR}
+          strokeWidth="1"
+          rx="4"
+          ry="4"
+          fillOpacity="0.9"
+        />
+        <foreignObject x="10" y="10" width="180" height="80">
+          <div className="px-2.5 py-1.5 text-sm leading-[20px]">
+            <MathExpression className="block" expr={`x = ${probe.x.toFixed(2)}`} />
+            <MathExpression className="block" expr={`f(x) = ${probe.y.toFixed(2)}`} />
+            <MathExpression className="block" expr={reading} />
+          </div>
+        </foreignObject>
+      </g>
+    </>
+  )
+}
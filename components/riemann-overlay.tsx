@@ -0,0 +1,28 @@
+"use client"
+
+import { NEGATIVE_AREA_COLOR, POSITIVE_AREA_COLOR } from "@/components/graph-colors"
+import { createPolygonPath, type RiemannShape, type Viewport } from "@/lib/calculus"
+
+// Rectangles, trapezoids or parabolic strips of a Riemann sum, coloured by the sign of their area.
+// Strips where f is undefined are left out.
+export default function RiemannOverlay({ shapes, viewport }: { shapes: RiemannShape[]; viewport: Viewport }) {
+  return (
+    <>
+      {shapes.map((shape, index) => {
+        if (!shape.points.every((point) => isFinite(point.y))) return null
+        const above = shape.points.reduce((sum, point) => sum + point.y, 0) >= 0
+        const color = above ? POSITIVE_AREA_COLOR : NEGATIVE_AREA_COLOR
+        return (
+          <path
+            key={index}
+            d={createPolygonPath(shape.points, viewport)}
+            fill={color}
+            fillOpacity="0.2"
+            stroke={color}
+            strokeWidth="1"
+          />
+        )
+      })}
+    </>
+  )
+}
@@ -0,0 +1,95 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { RIEMANN_METHODS, subintervalCount, type RiemannMethod } from "@/lib/calculus"
+
+export const MAX_SUBINTERVALS = 200
+
+interface RiemannPanelProps {
+  method: RiemannMethod | null
+  onMethodChange: (method: RiemannMethod | null) => void
+  n: number
+  onNChange: (n: number) => void
+  approximation: number
+  // Value of the integral, undefined while the worker is still computing it
+  exact: number | undefined
+  isAnimating: boolean
+}
+
+const format = (value: number) => (isFinite(value) ? value.toFixed(6) : "undefined")
+
+// Controls and error readout for approximating the integral with rectangles, trapezoids or parabolas
+export default function RiemannPanel({
+  method,
+  onMethodChange,
+  n,
+  onNChange,
+  approximation,
+  exact,
+  isAnimating,
+}: RiemannPanelProps) {
+  const error = exact === undefined ? Number.NaN : approximation - exact
+  const count = method ? subintervalCount(n, method) : n
+
+  return (
+    <div className="space-y-4 p-4 border rounded">
+      <h3 className="font-semibold">Riemann sum</h3>
+
+      <div className="space-y-1">
+        <Label htmlFor="riemann-method">Approximation</Label>
+        <Select
+          value={method ?? "none"}
+          onValueChange={(value) => onMethodChange(value === "none" ? null : (value as RiemannMethod))}
+        >
+          <SelectTrigger id="riemann-method">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None</SelectItem>
+            {(Object.keys(RIEMANN_METHODS) as RiemannMethod[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {RIEMANN_METHODS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {method && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="riemann-n">
+              Subintervals: n = {count}
+              {method === "simpson" && count !== n && " (Simpson's rule needs an even n)"}
+            </Label>
+            <Slider
+              id="riemann-n"
+              value={[n]}
+              min={1}
+              max={MAX_SUBINTERVALS}
+              step={1}
+              disabled={isAnimating}
+              onValueChange={(value) => onNChange(value[0])}
+            />
+            <p className="text-xs text-muted-foreground">Press Animate to watch n grow from 1 to {MAX_SUBINTERVALS}.</p>
+          </div>
+
+          <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 font-mono text-sm">
+            <span>Approximation</span>
+            <span>{format(approximation)}</span>
+            <span>Integral</span>
+            <span>{exact === undefined ? "…" : format(exact)}</span>
+            <span>Error</span>
+            <span>{format(error)}</span>
+            <span>Relative error</span>
+            <span>
+              {isFinite(error) && exact !== 0 ? `${((Math.abs(error) / Math.abs(exact ?? 1)) * 100).toFixed(4)}%` : "—"}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { GUIDE_COLOR, PANEL_COLOR, SECANT_COLOR, TANGENT_COLOR } from "@/components/graph-colors"
+import { mapToSVG, safeEval, secantLine, tangentLine, type Viewport } from "@/lib/calculus"
+
+interface SecantOverlayProps {
+  func: string
+  // Symbolic f', when there is one, for the tangent
+  derivative?: string
+  point: number
+  step: number
+  viewport: Viewport
+}
+
+// Secant through (a, f(a)) and (a + h, f(a + h)) next to the tangent it approaches, with the run h and the
+// rise f(a + h) - f(a) marked; nothing when f is undefined at either point
+export default function SecantOverlay({ func, derivative, point, step, viewport }: SecantOverlayProps) {
+  const p = { x: point, y: safeEval(func, point) }
+  const q = { x: point + step, y: safeEval(func, point + step) }
+  if (!isFinite(p.y) || !isFinite(q.y)) return null
+
+  const secant = secantLine(func, point, step)
+  const tangent = tangentLine(func, point, derivative)
+  const ends = (line: { slope: number; intercept: number }) =>
+    viewport.range.map((x) => mapToSVG({ x, y: line.slope * x + line.intercept }, viewport))
+  const [s1, s2] = ends(secant)
+  const [t1, t2] = ends(tangent)
+  const P = mapToSVG(p, viewport)
+  const Q = mapToSVG(q, viewport)
+  const corner = mapToSVG({ x: q.x, y: p.y }, viewport)
+
+  return (
+    <>
+      {isFinite(tangent.slope) && (
+        <line
+          x1={t1.x}
+          y1={t1.y}
+          x2={t2.x}
+          y2={t2.y}
+          stroke={TANGENT_COLOR}
+          strokeWidth="1.5"
+          strokeDasharray="6,4"
+          strokeOpacity="0.6"
+        />
+      )}
+      <line x1={s1.x} y1={s1.y} x2={s2.x} y2={s2.y} stroke={SECANT_COLOR} strokeWidth="2" />
+      <line x1={P.x} y1={P.y} x2={corner.x} y2={corner.y} stroke={GUIDE_COLOR} strokeWidth="1" strokeDasharray="3,3" />
+      <line x1={corner.x} y1={corner.y} x2={Q.x} y2={Q.y} stroke={GUIDE_COLOR} strokeWidth="1" strokeDasharray="3,3" />
+      <circle cx={P.x} cy={P.y} r="5" fill={SECANT_COLOR} />
+      <circle cx={Q.x} cy={Q.y} r="5" fill={PANEL_COLOR} stroke={SECANT_COLOR} strokeWidth="2" />
+      <text x={P.x} y={P.y - 10} textAnchor="middle" className="text-xs fill-current">
+        a
+      </text>
+      <text x={Q.x} y={Q.y - 10} textAnchor="middle" className="text-xs fill-current">
+        a + h
+      </text>
+    </>
+  )
+}
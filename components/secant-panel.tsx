@@ -0,0 +1,131 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { differenceQuotient, differenceQuotientTable, type Range } from "@/lib/calculus"
+
+// h is chosen on a log scale so the slider spends as much room on 0.001 as on 1
+export const MIN_LOG_STEP = -4
+export const MAX_LOG_STEP = 0.5
+
+export type SecantSide = "left" | "right"
+
+interface SecantPanelProps {
+  func: string
+  point: number
+  onPointChange: (point: number) => void
+  logStep: number
+  onLogStepChange: (logStep: number) => void
+  side: SecantSide
+  onSideChange: (side: SecantSide) => void
+  // f'(a) for comparison, NaN when it does not exist
+  slope: number
+  range: Range
+  isAnimating: boolean
+}
+
+const format = (value: number) => (isFinite(value) ? value.toFixed(6) : "undefined")
+
+export const secantStep = (logStep: number, side: SecantSide) => (side === "left" ? -1 : 1) * 10 ** logStep
+
+// Point a, step h and the difference quotients that approach f'(a) as h shrinks
+export default function SecantPanel({
+  func,
+  point,
+  onPointChange,
+  logStep,
+  onLogStepChange,
+  side,
+  onSideChange,
+  slope,
+  range,
+  isAnimating,
+}: SecantPanelProps) {
+  const h = secantStep(logStep, side)
+
+  return (
+    <div className="space-y-4 p-4 border rounded">
+      <h3 className="font-semibold">Secant to tangent</h3>
+
+      <div className="space-y-2">
+        <Label htmlFor="secant-point">Point a</Label>
+        <div className="flex items-center gap-2">
+          <Slider
+            value={[point]}
+            min={Math.floor(range[0])}
+            max={Math.ceil(range[1])}
+            step={0.1}
+            onValueChange={(value) => onPointChange(value[0])}
+            className="flex-1"
+          />
+          <Input
+            id="secant-point"
+            type="number"
+            step={0.1}
+            value={point}
+            onChange={(e) => {
+              const value = Number.parseFloat(e.target.value)
+              if (isFinite(value)) onPointChange(value)
+            }}
+            className="w-24"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="secant-step">h = {Number(h.toPrecision(3))}</Label>
+        <Slider
+          id="secant-step"
+          value={[logStep]}
+          min={MIN_LOG_STEP}
+          max={MAX_LOG_STEP}
+          step={0.01}
+          disabled={isAnimating}
+          onValueChange={(value) => onLogStepChange(value[0])}
+        />
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={side}
+          onValueChange={(value) => value && onSideChange(value as SecantSide)}
+          className="justify-start"
+        >
+          <ToggleGroupItem value="left">From the left (h &lt; 0)</ToggleGroupItem>
+          <ToggleGroupItem value="right">From the right (h &gt; 0)</ToggleGroupItem>
+        </ToggleGroup>
+        <p className="text-xs text-muted-foreground">Press Animate to shrink h toward 0.</p>
+      </div>
+
+      <div className="p-2 border rounded bg-muted font-mono text-sm space-y-1">
+        <p>[f(a+h) - f(a)] / h = {format(differenceQuotient(func, point, h))}</p>
+        <p className="text-muted-foreground">f'(a) = {format(slope)}</p>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>h</TableHead>
+            <TableHead>Right quotient</TableHead>
+            <TableHead>Left quotient</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody className="font-mono text-xs">
+          {differenceQuotientTable(func, point).map((row) => (
+            <TableRow key={row.h}>
+              <TableCell>{row.h}</TableCell>
+              <TableCell>{format(row.right)}</TableCell>
+              <TableCell>{format(row.left)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <p className="text-xs text-muted-foreground">
+        The right quotient uses f(a+h), the left one f(a-h); both tend to f'(a) when f is differentiable at a.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+"use client"
+
+import { REMAINDER_COLOR, TAYLOR_COLOR } from "@/components/graph-colors"
+import { createPath, mapToSVG, type TaylorSamples, type Viewport } from "@/lib/calculus"
+
+interface TaylorOverlayProps {
+  taylor: TaylorSamples
+  center: number
+  // Highest partial sum drawn, with all its coefficients defined
+  degree: number
+  viewport: Viewport
+}
+
+// Partial sums up to degree, fading out the lower ones, the remainder of the last one and the center
+export default function TaylorOverlay({ taylor, center, degree, viewport }: TaylorOverlayProps) {
+  const point = mapToSVG({ x: center, y: taylor.coefficients[0] }, viewport)
+
+  return (
+    <>
+      {taylor.partialSums.slice(0, degree + 1).map((segments, k) => (
+        <path
+          key={k}
+          d={createPath(segments, viewport)}
+          fill="none"
+          stroke={TAYLOR_COLOR}
+          strokeWidth={k === degree ? 2.5 : 1}
+          strokeOpacity={k === degree ? 1 : 0.15 + (0.4 * (k + 1)) / (degree + 1)}
+        />
+      ))}
+      <path
+        d={createPath(taylor.remainders[degree], viewport)}
+        fill="none"
+        stroke={REMAINDER_COLOR}
+        strokeWidth="2"
+        strokeDasharray="2,4"
+      />
+      <circle cx={point.x} cy={point.y} r="5" fill={TAYLOR_COLOR} />
+    </>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import MathExpression from "@/components/math-expression"
+import { formatTaylorPolynomial, MAX_TAYLOR_DEGREE, usableTaylorDegree, type Range } from "@/lib/calculus"
+
+interface TaylorPanelProps {
+  center: number
+  onCenterChange: (center: number) => void
+  degree: number
+  onDegreeChange: (degree: number) => void
+  // Empty until the worker has expanded the function
+  coefficients: number[]
+  range: Range
+  isAnimating: boolean
+}
+
+// Expansion point, number of terms and the resulting Taylor polynomial
+export default function TaylorPanel({
+  center,
+  onCenterChange,
+  degree,
+  onDegreeChange,
+  coefficients,
+  range,
+  isAnimating,
+}: TaylorPanelProps) {
+  // The polynomial stops at the first order whose derivative is undefined at the center
+  const usableDegree = usableTaylorDegree(coefficients, degree)
+
+  return (
+    <div className="space-y-4 p-4 border rounded">
+      <h3 className="font-semibold">Taylor series</h3>
+
+      <div className="space-y-2">
+        <Label htmlFor="taylor-center">Expansion point a</Label>
+        <div className="flex items-center gap-2">
+          <Slider
+            value={[center]}
+            min={Math.floor(range[0])}
+            max={Math.ceil(range[1])}
+            step={0.1}
+            onValueChange={(value) => onCenterChange(value[0])}
+            className="flex-1"
+          />
+          <Input
+            id="taylor-center"
+            type="number"
+            step={0.1}
+            value={center}
+            onChange={(e) => {
+              const value = Number.parseFloat(e.target.value)
+              if (isFinite(value)) onCenterChange(value)
+            }}
+            className="w-24"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="taylor-degree">Terms: N = {degree}</Label>
+        <Slider
+          id="taylor-degree"
+          value={[degree]}
+          min={0}
+          max={MAX_TAYLOR_DEGREE}
+          step={1}
+          disabled={isAnimating}
+          onValueChange={(value) => onDegreeChange(value[0])}
+        />
+        <p className="text-xs text-muted-foreground">Press Animate to add one term at a time.</p>
+      </div>
+
+      <div className="space-y-1">
+        <Label>
+          P<sub>{degree}</sub>(x)
+        </Label>
+        <div className="p-2 border rounded bg-muted text-sm break-words">
+          {coefficients.length === 0 ? (
+            "…"
+          ) : usableDegree < 0 ? (
+            "f is undefined at a"
+          ) : (
+            <MathExpression expr={formatTaylorPolynomial(coefficients, center, usableDegree)} />
+          )}
+        </div>
+        {usableDegree >= 0 && usableDegree < degree && (
+          <p className="text-sm text-amber-600">
+            f is not differentiable {usableDegree + 1} times at a = {center}, so the series stops at degree{" "}
+            {usableDegree}.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+"use client"
+
+import { useEffect, useState, type FormEvent } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import type { Range } from "@/lib/calculus"
+
+interface WindowControlsProps {
+  // The window currently shown, after zoom and pan
+  xRange: Range
+  yRange: Range
+  onApply: (xRange: Range, yRange: Range) => void
+  onFitY: () => void
+  lockAspect: boolean
+  onLockAspectChange: (lockAspect: boolean) => void
+}
+
+const BOUNDS = ["xMin", "xMax", "yMin", "yMax"] as const
+
+const LABELS: Record<(typeof BOUNDS)[number], string> = {
+  xMin: "x min",
+  xMax: "x max",
+  yMin: "y min",
+  yMax: "y max",
+}
+
+type Draft = Record<(typeof BOUNDS)[number], string>
+
+const format = (value: number) => String(Number(value.toPrecision(4)))
+
+const toDraft = (xRange: Range, yRange: Range): Draft => ({
+  xMin: format(xRange[0]),
+  xMax: format(xRange[1]),
+  yMin: format(yRange[0]),
+  yMax: format(yRange[1]),
+})
+
+// Exact bounds for the graph window, plus fitting y to the curve and a 1:1 aspect lock
+export default function WindowControls({
+  xRange,
+  yRange,
+  onApply,
+  onFitY,
+  lockAspect,
+  onLockAspectChange,
+}: WindowControlsProps) {
+  // Typed text is kept as is until applied, so intermediate input such as "-" is not rejected
+  const [draft, setDraft] = useState<Draft>(() => toDraft(xRange, yRange))
+  const [error, setError] = useState("")
+
+  // Follow the window as it is zoomed and panned
+  useEffect(() => {
+    setDraft(toDraft(xRange, yRange))
+    setError("")
+  }, [xRange[0], xRange[1], yRange[0], yRange[1]])
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    const [xMin, xMax, yMin, yMax] = BOUNDS.map((bound) => Number.parseFloat(draft[bound]))
+    if (![xMin, xMax, yMin, yMax].every(isFinite)) {
+      setError("Every bound must be a number")
+      return
+    }
+    if (xMin >= xMax || yMin >= yMax) {
+      setError("Each minimum must be below its maximum")
+      return
+    }
+    onApply([xMin, xMax], [yMin, yMax])
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 w-full max-w-lg">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {BOUNDS.map((bound) => (
+          <div key={bound} className="space-y-1">
+            <Label htmlFor={`window-${bound}`} className="text-xs">
+              {LABELS[bound]}
+            </Label>
+            <Input
+              id={`window-${bound}`}
+              type="number"
+              step="any"
+              value={draft[bound]}
+              disabled={lockAspect && bound.startsWith("y")}
+              onChange={(e) => setDraft((prev) => ({ ...prev, [bound]: e.target.value }))}
+            />
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="submit" size="sm" variant="outline">
+          Set window
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={onFitY}>
+          Fit y to curve
+        </Button>
+        <div className="flex items-center space-x-2">
+          <Switch id="lock-aspect" checked={lockAspect} onCheckedChange={onLockAspectChange} />
+          <Label htmlFor="lock-aspect">Lock 1:1 aspect</Label>
+        </div>
+      </div>
+    </form>
+  )
+}
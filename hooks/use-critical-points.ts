@@ -0,0 +1,29 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { isAbortError, runInWorker, type CriticalPoint, type Range } from "@/lib/calculus"
+
+// Extrema, saddles and inflection points of func on range, found in the worker.
+// null while searching or when disabled.
+const useCriticalPoints = (func: string, range: Range, enabled: boolean): CriticalPoint[] | null => {
+  const [points, setPoints] = useState<CriticalPoint[] | null>(null)
+  const [lo, hi] = range
+
+  useEffect(() => {
+    setPoints(null)
+    if (!enabled || !func.trim()) return
+
+    const controller = new AbortController()
+    runInWorker({ kind: "critical", expr: func, range: [lo, hi] }, { signal: controller.signal })
+      .then(setPoints)
+      .catch((e) => {
+        if (!isAbortError(e)) setPoints([])
+      })
+
+    return () => controller.abort()
+  }, [func, lo, hi, enabled])
+
+  return points
+}
+
+export { useCriticalPoints }
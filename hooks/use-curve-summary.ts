@@ -0,0 +1,34 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { describeCurve, isAbortError, runInWorker, type Range } from "@/lib/calculus"
+
+// Sentences describing func on range, worked out in the worker once the view has settled for a
+// moment so that panning does not queue a search for every frame. Empty while working.
+const useCurveSummary = (func: string, range: Range): string[] => {
+  const [sentences, setSentences] = useState<string[]>([])
+  const [lo, hi] = range
+
+  useEffect(() => {
+    setSentences([])
+    if (!func.trim()) return
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      runInWorker({ kind: "summary", expr: func, range: [lo, hi] }, { signal: controller.signal })
+        .then((summary) => setSentences(describeCurve(summary)))
+        .catch((e) => {
+          if (!isAbortError(e)) setSentences([])
+        })
+    }, 300)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [func, lo, hi])
+
+  return sentences
+}
+
+export { useCurveSummary }
@@ -0,0 +1,61 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { isAbortError, runInWorker, type Point, type Range, type SampleOptions } from "@/lib/calculus"
+
+export interface CurveRequest {
+  id: number
+  expr: string
+  showDerivative: boolean
+}
+
+export interface SampledCurve {
+  points: Point[][]
+  // Empty unless the derivative was asked for
+  derivativePoints: Point[][]
+}
+
+// Each function and, when asked for, its derivative sampled on range in the worker.
+// Curves keep their previous samples until the new ones arrive.
+const useCurves = (
+  curves: CurveRequest[],
+  range: Range,
+  { yScale, maxAbs }: SampleOptions = {},
+): Record<number, SampledCurve> => {
+  const [sampled, setSampled] = useState<Record<number, SampledCurve>>({})
+  const [lo, hi] = range
+  // A new array of the same curves on every render must not restart the jobs
+  const key = curves.map(({ id, expr, showDerivative }) => `${id}:${showDerivative ? "1" : "0"}:${expr}`).join("\n")
+
+  useEffect(() => {
+    if (curves.length === 0) {
+      setSampled({})
+      return
+    }
+
+    const controller = new AbortController()
+    const { signal } = controller
+    const range: Range = [lo, hi]
+    const options = { yScale, maxAbs }
+
+    Promise.all(
+      curves.map(async ({ id, expr, showDerivative }) => {
+        const [points, derivativePoints] = await Promise.all([
+          runInWorker({ kind: "curve", expr, range, options }, { signal }),
+          showDerivative ? runInWorker({ kind: "curve", expr, range, options, derivativeOrder: 1 }, { signal }) : [],
+        ])
+        return [id, { points, derivativePoints }] as const
+      }),
+    )
+      .then((entries) => setSampled(Object.fromEntries(entries)))
+      .catch((e) => {
+        if (!isAbortError(e)) setSampled({})
+      })
+
+    return () => controller.abort()
+  }, [key, lo, hi, yScale, maxAbs])
+
+  return sampled
+}
+
+export { useCurves }
@@ -0,0 +1,36 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { isAbortError, runInWorker, type DerivationStep } from "@/lib/calculus"
+
+// The rules applied to differentiate func, worked out in the worker once func has settled for a moment
+// so that typing or dragging a slider does not queue a derivation for every change. null while working.
+const useDerivationSteps = (func: string): DerivationStep[] | null => {
+  const [steps, setSteps] = useState<DerivationStep[] | null>(null)
+
+  useEffect(() => {
+    if (!func.trim()) {
+      setSteps([])
+      return
+    }
+
+    setSteps(null)
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      runInWorker({ kind: "steps", expr: func }, { signal: controller.signal })
+        .then(setSteps)
+        .catch((e) => {
+          if (!isAbortError(e)) setSteps([])
+        })
+    }, 300)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [func])
+
+  return steps
+}
+
+export { useDerivationSteps }
@@ -0,0 +1,278 @@
+"use client"
+
+import { useCallback, useRef, useState, type PointerEvent, type WheelEvent } from "react"
+import { mapFromSVG, viewportScale, type Point, type Viewport } from "@/lib/calculus"
+import type { GraphProbe } from "@/hooks/use-graph-probe"
+import { clampZoom, type GraphView, type Zoom } from "@/hooks/use-graph-view"
+
+// How long a pointer has to stay down, and how far it may move, to pin the tangent
+const LONG_PRESS_MS = 500
+const TAP_SLOP = 8
+
+export interface ZoomBox {
+  start: Point
+  end: Point
+}
+
+// Boxes smaller than this many pixels either way are taken for a click
+const MIN_ZOOM_BOX = 5
+
+interface GraphGesturesOptions {
+  view: GraphView
+  probe: GraphProbe
+  // Called with the new position of an integration bound while it is dragged, rounded and kept in view
+  onBoundDrag: (index: 0 | 1, x: number) => void
+}
+
+// Pointer and wheel input on the graph: one pointer pans, probes and pins the tangent, two pinch to zoom,
+// Shift + drag zooms into a box and the wheel zooms at the cursor
+const useGraphGestures = ({ view, probe, onBoundDrag }: GraphGesturesOptions) => {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const isDragging = useRef(false)
+  // Pointers currently down on the graph, in client coordinates
+  const activePointers = useRef(new Map<number, Point>())
+  const pointerDownAt = useRef<Point | null>(null)
+  // Set once the pointer has strayed too far from where it went down to count as a tap or a long press
+  const pointerMoved = useRef(false)
+  const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // View when a two-finger pinch began, and the graph point between the fingers
+  const pinchStart = useRef<{ distance: number; zoom: Zoom; viewport: Viewport; anchor: Point } | null>(null)
+  const lastMousePos = useRef({ x: 0, y: 0 })
+  const draggingBound = useRef<0 | 1 | null>(null)
+  // Rectangle being dragged out with Shift held, in SVG coordinates; the ref is current between renders
+  const [zoomBox, setZoomBox] = useState<ZoomBox | null>(null)
+  const zoomBoxRef = useRef<ZoomBox | null>(null)
+
+  // React listens to wheel events passively, so only a native listener can stop the page scrolling
+  // while the graph zooms. The graph is mounted afresh with each tab, so it is added as the graph mounts.
+  const ref = useCallback((svg: SVGSVGElement | null) => {
+    svgRef.current = svg
+    if (!svg) return
+    const preventScroll = (e: Event) => e.preventDefault()
+    svg.addEventListener("wheel", preventScroll, { passive: false })
+    return () => {
+      svg.removeEventListener("wheel", preventScroll)
+      svgRef.current = null
+    }
+  }, [])
+
+  // Start dragging an integration bound without panning the graph
+  const startBoundDrag = (index: 0 | 1) => (e: PointerEvent) => {
+    e.stopPropagation()
+    // Moves are delivered to the graph even once the pointer leaves it
+    svgRef.current?.setPointerCapture(e.pointerId)
+    draggingBound.current = index
+  }
+
+  // Position of a pointer relative to the graph
+  const svgPoint = (clientX: number, clientY: number): Point => {
+    const rect = view.graphRef.current?.getBoundingClientRect()
+    return { x: clientX - (rect?.left ?? 0), y: clientY - (rect?.top ?? 0) }
+  }
+
+  const cancelLongPress = () => {
+    if (longPressTimer.current !== null) clearTimeout(longPressTimer.current)
+    longPressTimer.current = null
+  }
+
+  // Remember the view and the graph point between two fingers as they go down
+  const startPinch = () => {
+    const [a, b] = [...activePointers.current.values()]
+    const viewport = view.viewport
+    pinchStart.current = {
+      distance: Math.hypot(a.x - b.x, a.y - b.y),
+      zoom: view.zoom,
+      viewport,
+      anchor: mapFromSVG(svgPoint((a.x + b.x) / 2, (a.y + b.y) / 2), viewport),
+    }
+  }
+
+  // Zoom by how far the fingers have spread since the pinch started, keeping the graph point that was
+  // between them under their midpoint. Working from the start keeps fast gestures from drifting.
+  const movePinch = () => {
+    const start = pinchStart.current
+    if (!start) return
+    const [a, b] = [...activePointers.current.values()]
+    const factor = Math.hypot(a.x - b.x, a.y - b.y) / start.distance
+    const next = { x: clampZoom(start.zoom.x * factor), y: clampZoom(start.zoom.y * factor) }
+
+    const { xScale, yScale } = viewportScale(start.viewport)
+    const nextXScale = (xScale * next.x) / start.zoom.x
+    // With the aspect locked the y span follows the x zoom
+    const nextYScale = yScale * (view.lockAspect ? next.x / start.zoom.x : next.y / start.zoom.y)
+    const middle = svgPoint((a.x + b.x) / 2, (a.y + b.y) / 2)
+
+    view.setZoom(next)
+    view.setPanOffset({
+      x: start.anchor.x - (middle.x - view.width / 2) / nextXScale - (view.viewRange[0] + view.viewRange[1]) / 2,
+      y: start.anchor.y + (middle.y - view.height / 2) / nextYScale - (view.yViewRange[0] + view.yViewRange[1]) / 2,
+    })
+  }
+
+  // One pointer pans (or with Shift draws a zoom box) and pins the tangent when held still;
+  // a second one turns the gesture into a pinch
+  const onPointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    if (e.pointerType === "mouse" && e.button !== 0) return
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    activePointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+    cancelLongPress()
+
+    if (activePointers.current.size === 2) {
+      isDragging.current = false
+      startPinch()
+      return
+    }
+    if (activePointers.current.size > 2) return
+
+    pointerDownAt.current = { x: e.clientX, y: e.clientY }
+    pointerMoved.current = false
+
+    // Shift + drag draws a box to zoom into
+    if (e.shiftKey) {
+      const start = svgPoint(e.clientX, e.clientY)
+      zoomBoxRef.current = { start, end: start }
+      setZoomBox(zoomBoxRef.current)
+      return
+    }
+
+    isDragging.current = true
+    lastMousePos.current = { x: e.clientX, y: e.clientY }
+
+    const { x } = mapFromSVG(svgPoint(e.clientX, e.clientY), view.viewport)
+    longPressTimer.current = setTimeout(() => {
+      longPressTimer.current = null
+      isDragging.current = false
+      if (probe.probeAt(x)) probe.setPinned(true)
+    }, LONG_PRESS_MS)
+  }
+
+  // Show exactly the area of a zoom box
+  const zoomToBox = ({ start, end }: ZoomBox) => {
+    if (Math.abs(end.x - start.x) < MIN_ZOOM_BOX || Math.abs(end.y - start.y) < MIN_ZOOM_BOX) return
+    const a = mapFromSVG(start, view.viewport)
+    const b = mapFromSVG(end, view.viewport)
+    view.setLockAspect(false)
+    view.applyWindow([Math.min(a.x, b.x), Math.max(a.x, b.x)], [Math.min(a.y, b.y), Math.max(a.y, b.y)])
+  }
+
+  const onPointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    if (activePointers.current.has(e.pointerId)) {
+      activePointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+    }
+    const downAt = pointerDownAt.current
+    if (downAt && Math.hypot(e.clientX - downAt.x, e.clientY - downAt.y) > TAP_SLOP) {
+      pointerMoved.current = true
+      cancelLongPress()
+    }
+
+    if (pinchStart.current) {
+      movePinch()
+      return
+    }
+
+    if (zoomBoxRef.current) {
+      zoomBoxRef.current = { ...zoomBoxRef.current, end: svgPoint(e.clientX, e.clientY) }
+      setZoomBox(zoomBoxRef.current)
+      return
+    }
+
+    // Convert SVG coordinates back to math coordinates
+    const { range } = view
+    const { x } = mapFromSVG(svgPoint(e.clientX, e.clientY), view.viewport)
+
+    if (draggingBound.current !== null) {
+      onBoundDrag(draggingBound.current, Math.round(Math.min(Math.max(x, range[0]), range[1]) * 100) / 100)
+      return
+    }
+
+    if (isDragging.current) {
+      const dx = e.clientX - lastMousePos.current.x
+      const dy = e.clientY - lastMousePos.current.y
+      const { xScale, yScale } = viewportScale(view.viewport)
+
+      view.setPanOffset((prev) => ({
+        x: prev.x - dx / xScale,
+        y: prev.y + dy / yScale,
+      }))
+      lastMousePos.current = { x: e.clientX, y: e.clientY }
+      return
+    }
+
+    // Mice and pens probe the curve by hovering; fingers tap or long-press instead
+    if (e.pointerType !== "touch" && !probe.pinned) probe.probeAt(x)
+  }
+
+  const onPointerUp = (e: PointerEvent<SVGSVGElement>) => {
+    activePointers.current.delete(e.pointerId)
+    // Released before the long press fired and without moving
+    const tapped = longPressTimer.current !== null && !pointerMoved.current
+    cancelLongPress()
+    draggingBound.current = null
+
+    if (activePointers.current.size > 0) {
+      // Lifting one finger of a pinch carries on as a pan with the other
+      if (pinchStart.current && activePointers.current.size === 1) {
+        pinchStart.current = null
+        lastMousePos.current = [...activePointers.current.values()][0]
+        pointerDownAt.current = null
+        isDragging.current = true
+      }
+      return
+    }
+
+    pinchStart.current = null
+    pointerDownAt.current = null
+    isDragging.current = false
+
+    const box = zoomBoxRef.current
+    if (box) {
+      zoomBoxRef.current = null
+      setZoomBox(null)
+      zoomToBox(box)
+      return
+    }
+
+    // A tap releases a pinned tangent, or on a touch screen probes the curve where it lands
+    if (tapped) {
+      if (probe.pinned) {
+        probe.setPinned(false)
+        if (e.pointerType === "touch") probe.setHighlighted(false)
+      } else if (e.pointerType === "touch") {
+        probe.probeAt(mapFromSVG(svgPoint(e.clientX, e.clientY), view.viewport).x)
+      }
+    }
+  }
+
+  const onPointerLeave = (e: PointerEvent<SVGSVGElement>) => {
+    if (e.pointerType !== "touch" && !probe.pinned) probe.setHighlighted(false)
+  }
+
+  // Zoom towards the mouse; Shift zooms only x and Alt only y
+  const onWheel = (e: WheelEvent<SVGSVGElement>) => {
+    const svgRect = e.currentTarget.getBoundingClientRect()
+    const anchor = mapFromSVG({ x: e.clientX - svgRect.left, y: e.clientY - svgRect.top }, view.viewport)
+    // Some browsers turn Shift + wheel into horizontal scrolling
+    const factor = Math.exp(-(e.deltaY || e.deltaX) * 0.002)
+
+    view.zoomAround(anchor, e.altKey ? 1 : factor, e.shiftKey ? 1 : factor)
+  }
+
+  return {
+    svgRef,
+    ref,
+    zoomBox,
+    startBoundDrag,
+    // Spread onto the graph's svg element
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+      onPointerLeave,
+      onWheel,
+    },
+  }
+}
+
+export { useGraphGestures }
@@ -0,0 +1,126 @@
+"use client"
+
+import { useState, type KeyboardEvent } from "react"
+import { derivativeAt, isAbortError, linspace, runInWorker, safeEval, type Range } from "@/lib/calculus"
+import { useSonification } from "@/hooks/use-sonification"
+
+// Samples played when the whole curve is sonified
+const SONIFICATION_SAMPLES = 200
+
+export interface ProbeReading {
+  x: number
+  y: number
+  dy: number
+}
+
+// A probe reading worded for a screen reader
+const describeProbe = ({ x, y, dy }: ProbeReading) => {
+  const reading = (value: number) => (isFinite(value) ? value.toFixed(2) : "undefined")
+  return `x ${reading(x)}, f of x ${reading(y)}, f prime of x ${reading(dy)}`
+}
+
+interface GraphProbeOptions {
+  func: string
+  // Symbolic f', when there is one, for exact slopes
+  derivative?: string
+  // Nothing is probed until the curve has been sampled
+  hasCurve: boolean
+  range: Range
+  yRange: Range
+  onError: (message: string) => void
+}
+
+// The point, slope and tangent read off the curve at the pointer or the arrow keys, announced through a live
+// region and, with sound on, played as a tone. A pinned probe stays put until it is released.
+const useGraphProbe = ({ func, derivative, hasCurve, range, yRange, onError }: GraphProbeOptions) => {
+  const [highlighted, setHighlighted] = useState(false)
+  const [point, setPoint] = useState<ProbeReading>({ x: 0, y: 0, dy: 0 })
+  // A long press or the keyboard keeps the tangent where it was put instead of following the pointer
+  const [pinned, setPinned] = useState(false)
+  // What the live region reads out, and whether probing the curve plays its value as a tone
+  const [announcement, setAnnouncement] = useState("")
+  const [sonify, setSonify] = useState(false)
+  const sonification = useSonification()
+
+  // Show the point, slope and tangent at x; null when x is off the visible part of the curve
+  const probeAt = (x: number) => {
+    if (!hasCurve || x < range[0] || x > range[1]) return null
+
+    const y = safeEval(func, x)
+    const dy = derivativeAt(func, x, derivative)
+
+    setHighlighted(true)
+    setPoint({ x, y, dy })
+    if (sonify) sonification.playTone(y, yRange)
+    return { x, y, dy }
+  }
+
+  // Arrow keys walk the probe along the curve, with Shift for bigger steps; Home and End jump to the
+  // edges of the view and Escape puts the probe away. The reading is announced through the live region.
+  const handleKeyDown = (e: KeyboardEvent<SVGSVGElement>) => {
+    const step = (range[1] - range[0]) / (e.shiftKey ? 10 : 100)
+    const current = highlighted ? point.x : (range[0] + range[1]) / 2
+    let x: number
+    switch (e.key) {
+      case "ArrowLeft":
+        x = current - step
+        break
+      case "ArrowRight":
+        x = current + step
+        break
+      case "Home":
+        x = range[0]
+        break
+      case "End":
+        x = range[1]
+        break
+      case "Escape":
+        setHighlighted(false)
+        setPinned(false)
+        setAnnouncement("Point hidden")
+        return
+      default:
+        return
+    }
+    e.preventDefault()
+
+    const probe = probeAt(Number(Math.min(range[1], Math.max(range[0], x)).toPrecision(12)))
+    if (!probe) return
+    // Keep the point where the keys put it rather than where the mouse happens to be
+    setPinned(true)
+    setAnnouncement(describeProbe(probe))
+  }
+
+  // Play f across the visible x range from left to right, or stop a sweep that is playing
+  const toggleCurve = () => {
+    if (sonification.playing) {
+      sonification.stop()
+      return
+    }
+    const xs = linspace(range, SONIFICATION_SAMPLES)
+    runInWorker({ kind: "values", expr: func, xs })
+      .then((ys) => sonification.playCurve(ys, yRange))
+      .catch((e) => {
+        if (!isAbortError(e)) onError(e.message)
+      })
+  }
+
+  return {
+    highlighted,
+    setHighlighted,
+    point,
+    pinned,
+    setPinned,
+    probeAt,
+    handleKeyDown,
+    announcement,
+    sonify,
+    setSonify,
+    playing: sonification.playing,
+    toggleCurve,
+  }
+}
+
+export type GraphProbe = ReturnType<typeof useGraphProbe>
+
+export { useGraphProbe }
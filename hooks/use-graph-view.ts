@@ -0,0 +1,168 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { squareYRange, type Point, type Range, type SampleOptions, type Viewport } from "@/lib/calculus"
+import { formatNumbers, readFlag, readNumbers, readRange } from "@/lib/share"
+
+export const GRAPH_PADDING = 40
+export const DEFAULT_X_RANGE: Range = [-10, 10]
+export const DEFAULT_Y_RANGE: Range = [-10, 10]
+// Far enough in for a smooth curve to look straight, far enough out to see its overall shape
+const MIN_ZOOM = 0.01
+const MAX_ZOOM = 100000
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+
+export interface Zoom {
+  x: number
+  y: number
+}
+
+// The window onto the graph: base x and y ranges, the zoom and pan applied to them, and the size of the
+// element it is drawn in. Everything else works from the visible ranges and viewport derived here.
+const useGraphView = () => {
+  const graphRef = useRef<HTMLDivElement>(null)
+  const [width, setWidth] = useState(0)
+  const [height, setHeight] = useState(0)
+  const [viewRange, setViewRange] = useState<Range>(DEFAULT_X_RANGE)
+  const [yViewRange, setYViewRange] = useState<Range>(DEFAULT_Y_RANGE)
+  // Keep one unit as long on the y-axis as on the x-axis, deriving the y span from the x span
+  const [lockAspect, setLockAspect] = useState(false)
+  // Magnification of each axis relative to viewRange and yViewRange
+  const [zoom, setZoom] = useState<Zoom>({ x: 1, y: 1 })
+  // How far the view has been dragged from the centre of viewRange and yViewRange, in graph units
+  const [panOffset, setPanOffset] = useState({ x: 0, y: 0 })
+
+  useEffect(() => {
+    const handleResize = () => {
+      if (graphRef.current) {
+        setWidth(graphRef.current.clientWidth)
+        setHeight(graphRef.current.clientHeight)
+      }
+    }
+
+    handleResize()
+    window.addEventListener("resize", handleResize)
+
+    return () => {
+      window.removeEventListener("resize", handleResize)
+    }
+  }, [])
+
+  // Visible x interval after zoom and pan
+  const zoomedWidth = (viewRange[1] - viewRange[0]) / zoom.x
+  const centerX = (viewRange[0] + viewRange[1]) / 2 + panOffset.x
+  const range: Range = [centerX - zoomedWidth / 2, centerX + zoomedWidth / 2]
+
+  // Visible y interval, from yViewRange or the aspect lock, after zoom and pan
+  const centerY = (yViewRange[0] + yViewRange[1]) / 2 + panOffset.y
+  const halfHeight = (yViewRange[1] - yViewRange[0]) / 2 / zoom.y
+  const yRange: Range =
+    lockAspect && width > 2 * GRAPH_PADDING && height > 2 * GRAPH_PADDING
+      ? squareYRange({ width, height, padding: GRAPH_PADDING, range }, centerY)
+      : [centerY - halfHeight, centerY + halfHeight]
+
+  // Current mapping between math and SVG coordinates
+  const viewport: Viewport = { width, height, padding: GRAPH_PADDING, range, yRange }
+
+  // Curves are refined relative to the visible y span and cut where they leave it by far
+  const sampleOptions: SampleOptions = {
+    yScale: yRange[1] - yRange[0],
+    maxAbs: Math.max(Math.abs(yRange[0]), Math.abs(yRange[1])) + 10 * (yRange[1] - yRange[0]),
+  }
+
+  // Multiply the zoom of each axis by the given factors, keeping anchor at the same place on screen
+  const zoomAround = (anchor: Point, factorX: number, factorY: number) => {
+    const next = { x: clampZoom(zoom.x * factorX), y: clampZoom(zoom.y * factorY) }
+    const baseX = (viewRange[0] + viewRange[1]) / 2
+    const baseY = (yViewRange[0] + yViewRange[1]) / 2
+    // With the aspect locked the y span follows the x zoom
+    const shrinkY = lockAspect ? zoom.x / next.x : zoom.y / next.y
+
+    setZoom(next)
+    setPanOffset({
+      x: anchor.x + (baseX + panOffset.x - anchor.x) * (zoom.x / next.x) - baseX,
+      y: anchor.y + (baseY + panOffset.y - anchor.y) * shrinkY - baseY,
+    })
+  }
+
+  const zoomAroundCenter = (factor: number) =>
+    zoomAround({ x: (range[0] + range[1]) / 2, y: (yRange[0] + yRange[1]) / 2 }, factor, factor)
+
+  const zoomIn = () => zoomAroundCenter(1.25)
+
+  const zoomOut = () => zoomAroundCenter(0.8)
+
+  const resetView = () => {
+    setZoom({ x: 1, y: 1 })
+    setPanOffset({ x: 0, y: 0 })
+    setYViewRange(DEFAULT_Y_RANGE)
+  }
+
+  // Show exactly the given window
+  const applyWindow = (xRange: Range, yRange: Range) => {
+    setViewRange(xRange)
+    setYViewRange(yRange)
+    setZoom({ x: 1, y: 1 })
+    setPanOffset({ x: 0, y: 0 })
+  }
+
+  // Open the window a shared link describes, keeping the default for whatever it leaves out
+  const restoreShared = (params: URLSearchParams) => {
+    const sharedX = readRange(params, "x")
+    if (sharedX) setViewRange(sharedX)
+    const sharedY = readRange(params, "y")
+    if (sharedY) setYViewRange(sharedY)
+    const zoomLevels = readNumbers(params, "zoom", 2)
+    if (zoomLevels?.every((level) => level > 0)) {
+      setZoom({ x: clampZoom(zoomLevels[0]), y: clampZoom(zoomLevels[1]) })
+    }
+    const pan = readNumbers(params, "pan", 2)
+    if (pan) setPanOffset({ x: pan[0], y: pan[1] })
+    setLockAspect(readFlag(params, "aspect") ?? false)
+  }
+
+  // Add whatever differs from the default window to the query of a shared link
+  const writeShared = (params: URLSearchParams) => {
+    if (viewRange[0] !== DEFAULT_X_RANGE[0] || viewRange[1] !== DEFAULT_X_RANGE[1]) {
+      params.set("x", formatNumbers(viewRange))
+    }
+    if (yViewRange[0] !== DEFAULT_Y_RANGE[0] || yViewRange[1] !== DEFAULT_Y_RANGE[1]) {
+      params.set("y", formatNumbers(yViewRange))
+    }
+    if (zoom.x !== 1 || zoom.y !== 1) params.set("zoom", formatNumbers([zoom.x, zoom.y]))
+    if (panOffset.x !== 0 || panOffset.y !== 0) params.set("pan", formatNumbers([panOffset.x, panOffset.y]))
+    if (lockAspect) params.set("aspect", "1")
+  }
+
+  return {
+    graphRef,
+    width,
+    height,
+    viewRange,
+    setViewRange,
+    yViewRange,
+    setYViewRange,
+    lockAspect,
+    setLockAspect,
+    zoom,
+    setZoom,
+    panOffset,
+    setPanOffset,
+    range,
+    yRange,
+    viewport,
+    sampleOptions,
+    zoomAround,
+    zoomIn,
+    zoomOut,
+    resetView,
+    applyWindow,
+    restoreShared,
+    writeShared,
+  }
+}
+
+export type GraphView = ReturnType<typeof useGraphView>
+
+export { useGraphView }
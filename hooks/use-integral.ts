@@ -0,0 +1,55 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { isAbortError, runInWorker, type Range } from "@/lib/calculus"
+
+interface Integral {
+  // The definite integral over bounds; undefined while working and NaN where it does not exist
+  value: number | undefined
+  // An antiderivative of func; undefined while the worker is looking for one and null when there is none
+  antiderivative: string | null | undefined
+}
+
+// The integral of func between bounds and its antiderivative, both found in the worker while enabled.
+// The antiderivative only depends on func, so moving the bounds does not look for it again.
+const useIntegral = (func: string, bounds: Range, enabled: boolean): Integral => {
+  const [value, setValue] = useState<number | undefined>()
+  const [antiderivative, setAntiderivative] = useState<string | null | undefined>()
+  const [a, b] = bounds
+
+  useEffect(() => {
+    if (!enabled) return
+
+    setValue(undefined)
+    const controller = new AbortController()
+    runInWorker({ kind: "integral", expr: func, range: [a, b] }, { signal: controller.signal })
+      .then(setValue)
+      .catch((e) => {
+        if (!isAbortError(e)) setValue(Number.NaN)
+      })
+
+    return () => controller.abort()
+  }, [func, a, b, enabled])
+
+  useEffect(() => {
+    if (!enabled) return
+    if (!func.trim()) {
+      setAntiderivative(null)
+      return
+    }
+
+    setAntiderivative(undefined)
+    const controller = new AbortController()
+    runInWorker({ kind: "antiderivative", expr: func }, { signal: controller.signal })
+      .then(setAntiderivative)
+      .catch((e) => {
+        if (!isAbortError(e)) setAntiderivative(null)
+      })
+
+    return () => controller.abort()
+  }, [func, enabled])
+
+  return { value, antiderivative }
+}
+
+export { useIntegral }
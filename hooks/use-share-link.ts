@@ -0,0 +1,17 @@
+"use client"
+
+import { useEffect } from "react"
+
+// Keep the address bar on query without adding history entries, once the state has settled for a
+// moment so dragging the graph does not flood the history API
+const useShareLink = (query: string) => {
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const url = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`
+      window.history.replaceState(window.history.state, "", url)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [query])
+}
+
+export { useShareLink }
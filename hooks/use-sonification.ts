@@ -0,0 +1,101 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { Range } from "@/lib/calculus"
+
+// Pitches for the bottom and top of the visible y range, two octaves apart
+const LOW_PITCH = 220
+const HIGH_PITCH = 880
+const VOLUME = 0.2
+// Probe tones closer together than this are skipped so fast mouse moves do not pile up
+const MIN_TONE_GAP = 0.05
+
+// Higher y sounds higher; values off the screen stay at the nearest end of the scale
+const pitchOf = (y: number, [lo, hi]: Range) => {
+  const t = Math.min(1, Math.max(0, (y - lo) / (hi - lo)))
+  return LOW_PITCH * Math.pow(HIGH_PITCH / LOW_PITCH, t)
+}
+
+// Hear a curve: short tones for single values and a left-to-right sweep of the whole curve, both
+// with y mapped to pitch over the given y range
+const useSonification = () => {
+  const contextRef = useRef<AudioContext | null>(null)
+  const sweepRef = useRef<OscillatorNode | null>(null)
+  const lastTone = useRef(0)
+  const [playing, setPlaying] = useState(false)
+
+  // Browsers only allow audio to start from a user gesture, so the context is created on first use
+  const audio = () => {
+    contextRef.current ??= new AudioContext()
+    if (contextRef.current.state === "suspended") contextRef.current.resume()
+    return contextRef.current
+  }
+
+  const voice = (context: AudioContext) => {
+    const oscillator = context.createOscillator()
+    const gain = context.createGain()
+    oscillator.type = "sine"
+    oscillator.connect(gain).connect(context.destination)
+    return { oscillator, gain }
+  }
+
+  const stop = () => {
+    sweepRef.current?.stop()
+    sweepRef.current = null
+    setPlaying(false)
+  }
+
+  const playTone = (y: number, yRange: Range) => {
+    if (!isFinite(y)) return
+    const context = audio()
+    const now = context.currentTime
+    if (now - lastTone.current < MIN_TONE_GAP) return
+    lastTone.current = now
+
+    const { oscillator, gain } = voice(context)
+    oscillator.frequency.value = pitchOf(y, yRange)
+    gain.gain.setValueAtTime(VOLUME, now)
+    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.15)
+    oscillator.start(now)
+    oscillator.stop(now + 0.15)
+  }
+
+  // Values of f at evenly spaced x, played in turn over duration seconds; silent where f is undefined
+  const playCurve = (ys: number[], yRange: Range, duration = 4) => {
+    stop()
+    if (ys.length === 0) return
+    const context = audio()
+    const { oscillator, gain } = voice(context)
+    const start = context.currentTime + 0.05
+    const step = duration / ys.length
+
+    ys.forEach((y, i) => {
+      const time = start + i * step
+      if (isFinite(y)) oscillator.frequency.setValueAtTime(pitchOf(y, yRange), time)
+      gain.gain.setValueAtTime(isFinite(y) ? VOLUME : 0, time)
+    })
+    gain.gain.setValueAtTime(0, start + duration)
+    oscillator.onended = () => {
+      if (sweepRef.current !== oscillator) return
+      sweepRef.current = null
+      setPlaying(false)
+    }
+    oscillator.start(start)
+    oscillator.stop(start + duration)
+    sweepRef.current = oscillator
+    setPlaying(true)
+  }
+
+  // Release the audio device along with the page
+  useEffect(
+    () => () => {
+      sweepRef.current?.stop()
+      contextRef.current?.close()
+    },
+    [],
+  )
+
+  return { playing, playTone, playCurve, stop }
+}
+
+export { useSonification }
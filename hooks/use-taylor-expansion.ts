@@ -0,0 +1,79 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import {
+  isAbortError,
+  runInWorker,
+  MAX_TAYLOR_DEGREE,
+  type Range,
+  type SampleOptions,
+  type TaylorSamples,
+} from "@/lib/calculus"
+
+interface TaylorExpansion {
+  // Coefficients up to MAX_TAYLOR_DEGREE, null until they are known
+  coefficients: number[] | null
+  // The partial sums and remainders they give over range
+  samples: TaylorSamples | null
+  // Why the expansion failed, empty when it did not
+  error: string
+}
+
+// The Taylor expansion of func about center, worked out in the worker while enabled. It is expanded to the
+// highest supported degree once per function and center, so changing or animating the degree only picks
+// curves, and only its curves are sampled again when the view moves.
+const useTaylorExpansion = (
+  func: string,
+  center: number,
+  enabled: boolean,
+  range: Range,
+  { yScale, maxAbs }: SampleOptions = {},
+): TaylorExpansion => {
+  // Tagged with the function and center they belong to, so they are never sampled against another
+  const [expansion, setExpansion] = useState<{ func: string; center: number; coefficients: number[] } | null>(null)
+  const [samples, setSamples] = useState<TaylorSamples | null>(null)
+  const [error, setError] = useState("")
+  const [lo, hi] = range
+  const coefficients = expansion?.func === func && expansion.center === center ? expansion.coefficients : null
+
+  useEffect(() => {
+    if (!enabled) return
+    setExpansion(null)
+    setSamples(null)
+    setError("")
+    if (!func.trim()) return
+
+    const controller = new AbortController()
+    runInWorker(
+      { kind: "taylor", expr: func, center, degree: MAX_TAYLOR_DEGREE },
+      // Repeated symbolic differentiation is far slower than sampling
+      { signal: controller.signal, timeoutMs: 10000 },
+    )
+      .then((coefficients) => setExpansion({ func, center, coefficients }))
+      .catch((e) => {
+        if (!isAbortError(e)) setError(e.message)
+      })
+
+    return () => controller.abort()
+  }, [func, center, enabled])
+
+  useEffect(() => {
+    if (!enabled || !coefficients) return
+
+    const controller = new AbortController()
+    runInWorker(
+      { kind: "taylorCurves", expr: func, center, coefficients, range: [lo, hi], options: { yScale, maxAbs } },
+      { signal: controller.signal },
+    )
+      .then(setSamples)
+      .catch((e) => {
+        if (!isAbortError(e)) setError(e.message)
+      })
+
+    return () => controller.abort()
+  }, [func, center, enabled, coefficients, lo, hi, yScale, maxAbs])
+
+  return { coefficients, samples, error }
+}
+
+export { useTaylorExpansion }
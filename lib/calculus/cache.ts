@@ -0,0 +1,16 @@
+// Memoise a function of a string key, evicting the oldest entry past `limit`.
+// Results that throw are not cached.
+export function cached<V>(build: (key: string) => V, limit = 200): (key: string) => V {
+  const entries = new Map<string, V>()
+
+  return (key) => {
+    if (entries.has(key)) return entries.get(key) as V
+
+    const value = build(key)
+    if (entries.size >= limit) {
+      entries.delete(entries.keys().next().value as string)
+    }
+    entries.set(key, value)
+    return value
+  }
+}
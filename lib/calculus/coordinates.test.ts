@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import { fitYRange, squareYRange, viewportScale } from "./coordinates"
+import type { Point } from "./types"
+
+const line = (count: number, y: (x: number) => number): Point[] =>
+  Array.from({ length: count }, (_, i) => ({ x: i, y: y(i) }))
+
+describe("fitYRange", () => {
+  it("fits the samples with a margin", () => {
+    const [lo, hi] = fitYRange([line(10, (x) => x)], [0, 9]) as [number, number]
+    expect(lo).toBeCloseTo(-0.45, 12)
+    expect(hi).toBeCloseTo(9.45, 12)
+  })
+
+  it("leaves out a pole so it does not flatten the curve", () => {
+    const samples = line(1000, (x) => Math.sin(x))
+    samples[500].y = 1e9
+    const [lo, hi] = fitYRange([samples], [0, 999]) as [number, number]
+    expect(hi).toBeLessThan(2)
+    expect(lo).toBeGreaterThan(-2)
+  })
+
+  it("ignores non-finite values and samples outside the x range", () => {
+    const samples = [...line(5, () => 3), { x: 2.5, y: Number.NaN }, { x: 2, y: Number.POSITIVE_INFINITY }]
+    expect(fitYRange([samples, [{ x: 20, y: 100 }]], [0, 4])).toEqual([2, 4])
+  })
+
+  it("gives a flat curve a window of height 2 and nothing to fit null", () => {
+    expect(fitYRange([line(5, () => 0)], [0, 4])).toEqual([-1, 1])
+    expect(fitYRange([[{ x: 1, y: Number.NaN }]], [0, 4])).toBeNull()
+    expect(fitYRange([], [0, 4])).toBeNull()
+  })
+})
+
+describe("squareYRange", () => {
+  it("makes a unit as long on the y-axis as on the x-axis", () => {
+    const viewport = { width: 840, height: 440, padding: 20, range: [-10, 10] as [number, number] }
+    const yRange = squareYRange(viewport, 3)
+    expect(yRange).toEqual([-2, 8])
+    const { xScale, yScale } = viewportScale({ ...viewport, yRange })
+    expect(yScale).toBeCloseTo(xScale, 12)
+  })
+})
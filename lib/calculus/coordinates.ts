@@ -0,0 +1,157 @@
+import type { Point, Range } from "./types"
+
+// Everything needed to map between math and SVG coordinates
+export interface Viewport {
+  width: number
+  height: number
+  padding: number
+  // Visible x and y intervals, mapped onto the area inside the padding
+  range: Range
+  yRange: Range
+}
+
+// Pixels per unit on each axis
+export function viewportScale(viewport: Viewport): { xScale: number; yScale: number } {
+  const { width, height, padding, range, yRange } = viewport
+  const graphWidth = width - 2 * padding
+  const graphHeight = height - 2 * padding
+
+  return {
+    xScale: graphWidth / (range[1] - range[0]),
+    yScale: graphHeight / (yRange[1] - yRange[0]),
+  }
+}
+
+// y interval centred on center whose units are as long on screen as those of range, for a 1:1 aspect ratio
+export function squareYRange(viewport: Omit<Viewport, "yRange">, center: number): Range {
+  const { width, height, padding, range } = viewport
+  const span = ((range[1] - range[0]) * (height - 2 * padding)) / (width - 2 * padding)
+  return [center - span / 2, center + span / 2]
+}
+
+// Smallest y interval holding the middle 98% of the finite sample values, with a margin, so a pole
+// does not flatten the rest of the curve. null when there is nothing to fit.
+export function fitYRange(segments: Point[][], range: Range, margin = 0.05): Range | null {
+  const ys = segments
+    .flat()
+    .filter((point) => point.x >= range[0] && point.x <= range[1] && isFinite(point.y))
+    .map((point) => point.y)
+    .sort((a, b) => a - b)
+  if (ys.length === 0) return null
+
+  const lo = ys[Math.floor(ys.length * 0.01)]
+  const hi = ys[Math.ceil(ys.length * 0.99) - 1]
+  // A flat curve still gets a window of height 2
+  const pad = hi > lo ? (hi - lo) * margin : 1
+  return [lo - pad, hi + pad]
+}
+
+// Distance between axis ticks: 1, 2 or 5 times a power of ten, giving about count ticks over span
+export function tickStep(span: number, count = 10): number {
+  const raw = span / count
+  const power = 10 ** Math.floor(Math.log10(raw))
+  const step = [1, 2, 5, 10].find((factor) => factor * power >= raw) ?? 10
+  return step * power
+}
+
+// Map coordinates from mathematical to SVG space
+export function mapToSVG(point: Point, viewport: Viewport): Point {
+  const { xScale, yScale } = viewportScale(viewport)
+
+  return {
+    x: viewport.padding + (point.x - viewport.range[0]) * xScale,
+    y: viewport.padding + (viewport.yRange[1] - point.y) * yScale,
+  }
+}
+
+// Map coordinates from SVG back to mathematical space
+export function mapFromSVG(point: Point, viewport: Viewport): Point {
+  const { xScale, yScale } = viewportScale(viewport)
+
+  return {
+    x: viewport.range[0] + (point.x - viewport.padding) / xScale,
+    y: viewport.yRange[1] - (point.y - viewport.padding) / yScale,
+  }
+}
+
+// Create SVG path from curve segments, drawing only the first `progress` fraction of the points.
+// Each segment starts with its own move so no line is drawn across a break.
+export function createPath(segments: Point[][], viewport: Viewport, progress = 1): string {
+  const total = segments.reduce((sum, segment) => sum + segment.length, 0)
+  let remaining = progress >= 1 ? total : Math.floor(total * progress)
+  let path = ""
+
+  for (const segment of segments) {
+    if (remaining <= 0) break
+
+    segment.slice(0, remaining).forEach((point, i) => {
+      const { x, y } = mapToSVG(point, viewport)
+      path += `${path ? " " : ""}${i === 0 ? "M" : "L"} ${x} ${y}`
+    })
+    remaining -= segment.length
+  }
+
+  return path
+}
+
+// Closed SVG path through points, e.g. one rectangle of a Riemann sum
+export function createPolygonPath(points: Point[], viewport: Viewport): string {
+  return `${points
+    .map((point, i) => {
+      const { x, y } = mapToSVG(point, viewport)
+      return `${i === 0 ? "M" : "L"} ${x} ${y}`
+    })
+    .join(" ")} Z`
+}
+
+const interpolate = (p: Point, q: Point, x: number): Point => ({ x, y: p.y + ((q.y - p.y) * (x - p.x)) / (q.x - p.x) })
+
+// SVG paths of the regions between the curve and the x-axis for lo <= x <= hi, split by the sign of
+// the curve so positive and negative area can be filled differently
+export function createAreaPaths(
+  segments: Point[][],
+  [lo, hi]: Range,
+  viewport: Viewport,
+): { positive: string; negative: string } {
+  const paths = { positive: "", negative: "" }
+
+  const close = (run: Point[]) => {
+    if (run.length < 2) return
+    const sign = run.reduce((sum, point) => sum + point.y, 0) >= 0 ? "positive" : "negative"
+    const path = createPolygonPath([{ x: run[0].x, y: 0 }, ...run, { x: run[run.length - 1].x, y: 0 }], viewport)
+    paths[sign] += `${paths[sign] ? " " : ""}${path}`
+  }
+
+  for (const segment of segments) {
+    // Clip to [lo, hi], adding the points where the curve crosses the bounds
+    const clipped: Point[] = []
+    segment.forEach((point, i) => {
+      const prev = segment[i - 1]
+      if (prev) {
+        for (const edge of [lo, hi]) {
+          if ((prev.x - edge) * (point.x - edge) < 0) clipped.push(interpolate(prev, point, edge))
+        }
+      }
+      if (point.x >= lo && point.x <= hi) clipped.push(point)
+    })
+
+    // Start a new region wherever the curve crosses the x-axis
+    let run: Point[] = []
+    let runSign = 0
+    clipped.forEach((point, i) => {
+      const prev = clipped[i - 1]
+      const sign = Math.sign(point.y)
+      if (sign !== 0 && runSign !== 0 && sign !== runSign) {
+        const crossing = prev.y === 0 ? prev : { x: prev.x - (prev.y * (point.x - prev.x)) / (point.y - prev.y), y: 0 }
+        if (prev.y !== 0) run.push(crossing)
+        close(run)
+        run = [crossing]
+      }
+      if (sign !== 0) runSign = sign
+      run.push(point)
+    })
+    close(run)
+  }
+
+  return paths
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest"
+import { findCriticalPoints, findRoots } from "./critical"
+
+describe("findCriticalPoints", () => {
+  it("classifies the extrema and inflection point of a cubic", () => {
+    const points = findCriticalPoints("x^3 - 3x", [-3, 3])
+    expect(points.map(({ kind }) => kind)).toEqual(["max", "inflection", "min"])
+    expect(points[0].x).toBeCloseTo(-1, 6)
+    expect(points[0].y).toBeCloseTo(2, 6)
+    expect(points[1].x).toBeCloseTo(0, 6)
+    expect(points[2].x).toBeCloseTo(1, 6)
+    expect(points[2].y).toBeCloseTo(-2, 6)
+  })
+
+  it("reports a stationary point without a sign change as a saddle", () => {
+    const points = findCriticalPoints("x^3", [-1, 2])
+    expect(points).toHaveLength(1)
+    expect(points[0].kind).toBe("saddle")
+    expect(points[0].x).toBeCloseTo(0, 4)
+  })
+
+  it("finds nothing on a straight line", () => {
+    expect(findCriticalPoints("2x + 1", [-5, 5])).toEqual([])
+  })
+})
+
+describe("findRoots", () => {
+  it("finds every zero of sin in range", () => {
+    const roots = findRoots(Math.sin, [-1, 7])
+    expect(roots).toHaveLength(3)
+    roots.forEach((root, i) => expect(root).toBeCloseTo(i * Math.PI, 8))
+  })
+})
@@ -0,0 +1,142 @@
+import { numericalDerivative, symbolicDerivative } from "./differentiate"
+import { compileFunction, type RealFunction } from "./evaluate"
+import { linspace } from "./sample"
+import type { Range } from "./types"
+
+export type CriticalPointKind = "max" | "min" | "saddle" | "inflection"
+
+export const CRITICAL_POINT_NAMES: Record<CriticalPointKind, string> = {
+  max: "Local maximum",
+  min: "Local minimum",
+  saddle: "Saddle point",
+  inflection: "Inflection point",
+}
+
+export interface CriticalPoint {
+  x: number
+  y: number
+  kind: CriticalPointKind
+}
+
+export interface RootOptions {
+  // Grid cells scanned for sign changes before refining
+  samples?: number
+  tolerance?: number
+  maxIterations?: number
+}
+
+const slopeOf = (g: RealFunction, x: number, h = 1e-6) => (g(x + h) - g(x - h)) / (2 * h)
+
+// Newton's method kept inside [lo, hi]: any step that leaves the bracket falls back to bisection
+const refineBracketed = (g: RealFunction, lo: number, hi: number, tolerance: number, maxIterations: number) => {
+  let glo = g(lo)
+  let x = (lo + hi) / 2
+
+  for (let i = 0; i < maxIterations && hi - lo > tolerance; i++) {
+    const gx = g(x)
+    if (gx === 0) return x
+    if (Math.sign(gx) === Math.sign(glo)) {
+      lo = x
+      glo = gx
+    } else {
+      hi = x
+    }
+
+    const next = x - gx / slopeOf(g, x)
+    x = isFinite(next) && next > lo && next < hi ? next : (lo + hi) / 2
+  }
+  return x
+}
+
+// Plain Newton from a starting guess, used to reach even-order roots where g touches zero without crossing
+const refineTouching = (g: RealFunction, x: number, tolerance: number, maxIterations: number) => {
+  const dg = (t: number) => slopeOf(g, t)
+  for (let i = 0; i < maxIterations; i++) {
+    const step = dg(x) / slopeOf(dg, x)
+    if (!isFinite(step)) break
+    x -= step
+    if (Math.abs(step) < tolerance) break
+  }
+  return x
+}
+
+// Zeros of g on range: cells where g changes sign are refined by bracketed Newton, and cells where |g|
+// dips towards zero without a sign change by Newton on g'. Poles, where g also changes sign, are discarded.
+export function findRoots(
+  g: RealFunction,
+  range: Range,
+  { samples = 400, tolerance = 1e-10, maxIterations = 60 }: RootOptions = {},
+): number[] {
+  const xs = linspace(range, samples)
+  const ys = xs.map(g)
+  const cell = (range[1] - range[0]) / samples
+  const roots: number[] = []
+
+  const accept = (x: number, scale: number) => {
+    if (!(x >= range[0] && x <= range[1])) return
+    if (!(Math.abs(g(x)) <= 1e-6 * Math.max(1, scale))) return
+    if (roots.some((root) => Math.abs(root - x) < cell / 2)) return
+    roots.push(x)
+  }
+
+  for (let i = 0; i < samples; i++) {
+    const [y0, y1] = [ys[i], ys[i + 1]]
+    if (!isFinite(y0) || !isFinite(y1)) continue
+
+    if (y0 === 0) accept(xs[i], 1)
+    else if (y0 * y1 < 0) {
+      accept(refineBracketed(g, xs[i], xs[i + 1], tolerance, maxIterations), Math.max(Math.abs(y0), Math.abs(y1)))
+    } else if (i > 0 && isFinite(ys[i - 1]) && Math.abs(y0) < Math.abs(ys[i - 1]) && Math.abs(y0) <= Math.abs(y1)) {
+      // Local minimum of |g| on the grid, possibly a double root
+      const x = refineTouching(g, xs[i], tolerance, maxIterations)
+      if (Math.abs(x - xs[i]) <= cell) accept(x, Math.max(Math.abs(ys[i - 1]), Math.abs(y1)))
+    }
+  }
+  if (isFinite(ys[samples]) && ys[samples] === 0) accept(xs[samples], 1)
+
+  return roots.sort((a, b) => a - b)
+}
+
+const derivativeFunction = (expr: string): { expr?: string; fn: RealFunction } => {
+  try {
+    const derivativeExpr = symbolicDerivative(expr)
+    return { expr: derivativeExpr, fn: compileFunction(derivativeExpr) }
+  } catch (e) {
+    return { fn: (x) => numericalDerivative(expr, x) }
+  }
+}
+
+// Stationary points of expr (zeros of f') classified as extrema or saddles, plus inflection points
+// where f'' changes sign, in increasing order of x
+export function findCriticalPoints(expr: string, range: Range, options?: RootOptions): CriticalPoint[] {
+  const f = compileFunction(expr)
+  const first = derivativeFunction(expr)
+  const second: RealFunction = first.expr ? derivativeFunction(first.expr).fn : (x) => slopeOf(first.fn, x, 1e-4)
+
+  const cell = (range[1] - range[0]) / (options?.samples ?? 400)
+  // Look a quarter cell to each side to read off signs without reaching the next root
+  const delta = cell / 4
+  const points: CriticalPoint[] = []
+
+  for (const x of findRoots(first.fn, range, options)) {
+    const y = f(x)
+    if (!isFinite(y)) continue
+
+    // First derivative test: f' falls through zero at a maximum and rises through it at a minimum
+    const before = Math.sign(first.fn(x - delta))
+    const after = Math.sign(first.fn(x + delta))
+    const kind: CriticalPointKind = before > 0 && after < 0 ? "max" : before < 0 && after > 0 ? "min" : "saddle"
+    points.push({ x, y, kind })
+  }
+
+  for (const x of findRoots(second, range, options)) {
+    const y = f(x)
+    if (!isFinite(y)) continue
+    // f'' has to change sign, and a saddle is already reported at the same place
+    if (Math.sign(second(x - delta)) === Math.sign(second(x + delta))) continue
+    if (points.some((point) => Math.abs(point.x - x) < cell / 2)) continue
+    points.push({ x, y, kind: "inflection" })
+  }
+
+  return points.sort((a, b) => a.x - b.x)
+}
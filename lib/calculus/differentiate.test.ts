@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest"
+import { differenceQuotient, differenceQuotientTable, secantLine } from "./differentiate"
+
+describe("differenceQuotientTable", () => {
+  it("approaches the derivative from both sides as h shrinks", () => {
+    const rows = differenceQuotientTable("x^2", 1, [1, 0.1, 0.001])
+    expect(rows.map(({ h }) => h)).toEqual([1, 0.1, 0.001])
+    rows.forEach(({ h, right, left }) => {
+      expect(right).toBeCloseTo(2 + h, 8)
+      expect(left).toBeCloseTo(2 - h, 8)
+    })
+  })
+
+  it("shows one-sided slopes that disagree at a corner", () => {
+    differenceQuotientTable("abs(x)", 0).forEach(({ right, left }) => {
+      expect(right).toBe(1)
+      expect(left).toBe(-1)
+    })
+  })
+
+  it("gives NaN on a side where f is undefined", () => {
+    const [row] = differenceQuotientTable("sqrt(x)", 0, [0.01])
+    expect(row.right).toBeCloseTo(10, 8)
+    expect(row.left).toBeNaN()
+  })
+})
+
+describe("secantLine", () => {
+  it("passes through both points it is drawn through", () => {
+    const { slope, intercept } = secantLine("x^3", 1, 0.5)
+    expect(slope).toBeCloseTo(differenceQuotient("x^3", 1, 0.5), 12)
+    expect(slope + intercept).toBeCloseTo(1, 12)
+    expect(1.5 * slope + intercept).toBeCloseTo(1.5 ** 3, 12)
+  })
+})
@@ -0,0 +1,94 @@
+import type { MathNode } from "mathjs"
+import { cached } from "./cache"
+import { compileFunction, compileNode, safeEval, type RealFunction } from "./evaluate"
+import { derivative, parseExpression, simplify } from "./sandbox"
+
+// Calculate derivative using central difference formula
+export function numericalDerivative(expr: string, x: number, h = 0.0001): number {
+  const f = compileFunction(expr)
+  return (f(x + h) - f(x - h)) / (2 * h)
+}
+
+// Differentiate with respect to x and simplify; throws on invalid input
+export const symbolicDerivative = cached((expr: string): string =>
+  simplify(derivative(parseExpression(expr), "x")).toString(),
+)
+
+// f, f', f'', ... grown on demand, so asking for a higher order only differentiates the new orders
+const derivativesOf = cached((expr: string): MathNode[] => [parseExpression(expr)])
+
+// The derivatives of expr from order 0 up to order, each simplified before it is differentiated again
+export function nthDerivatives(expr: string, order: number): MathNode[] {
+  const derivatives = derivativesOf(expr)
+  while (derivatives.length <= order) {
+    derivatives.push(simplify(derivative(derivatives[derivatives.length - 1], "x")))
+  }
+  return derivatives.slice(0, order + 1)
+}
+
+const derivativeFunctionsOf = cached((expr: string): RealFunction[] => [])
+
+// The order-th derivative of expr as a function of x. Compiled straight from the AST, since higher
+// derivatives are often longer than user input may be; falls back to central differences of the
+// order below when mathjs cannot differentiate expr.
+export function nthDerivativeFunction(expr: string, order: number): RealFunction {
+  if (order === 0) return compileFunction(expr)
+
+  const functions = derivativeFunctionsOf(expr)
+  if (!functions[order]) {
+    try {
+      functions[order] = compileNode(nthDerivatives(expr, order)[order])
+    } catch (e) {
+      const lower = nthDerivativeFunction(expr, order - 1)
+      const h = 1e-3
+      functions[order] = (x) => (lower(x + h) - lower(x - h)) / (2 * h)
+    }
+  }
+  return functions[order]
+}
+
+// Slope of expr at x, from derivativeExpr when known and numerically otherwise
+export function derivativeAt(expr: string, x: number, derivativeExpr?: string): number {
+  return derivativeExpr ? safeEval(derivativeExpr, x) : numericalDerivative(expr, x)
+}
+
+export interface TangentLine {
+  slope: number
+  intercept: number
+}
+
+// Tangent to expr at x = a
+export function tangentLine(expr: string, a: number, derivativeExpr?: string): TangentLine {
+  const slope = derivativeAt(expr, a, derivativeExpr)
+  const intercept = safeEval(expr, a) - slope * a
+  return { slope, intercept }
+}
+
+// Slope of the secant through (a, f(a)) and (a + h, f(a + h)); h < 0 gives the left-hand quotient
+export function differenceQuotient(expr: string, a: number, h: number): number {
+  const f = compileFunction(expr)
+  return (f(a + h) - f(a)) / h
+}
+
+// Secant through (a, f(a)) and (a + h, f(a + h)), in the same form as the tangent it approaches
+export function secantLine(expr: string, a: number, h: number): TangentLine {
+  const slope = differenceQuotient(expr, a, h)
+  const intercept = safeEval(expr, a) - slope * a
+  return { slope, intercept }
+}
+
+export interface DifferenceQuotientRow {
+  h: number
+  // [f(a + h) - f(a)] / h and [f(a - h) - f(a)] / (-h)
+  right: number
+  left: number
+}
+
+// One-sided difference quotients at a for shrinking step sizes
+export function differenceQuotientTable(
+  expr: string,
+  a: number,
+  steps = [1, 0.5, 0.1, 0.05, 0.01, 0.001, 0.0001],
+): DifferenceQuotientRow[] {
+  return steps.map((h) => ({ h, right: differenceQuotient(expr, a, h), left: differenceQuotient(expr, a, -h) }))
+}
@@ -0,0 +1,34 @@
+import type { EvalFunction, MathNode } from "mathjs"
+import { cached } from "./cache"
+import { parseExpression } from "./sandbox"
+
+export type RealFunction = (x: number) => number
+
+// Compile a validated AST into a function of x that returns NaN instead of throwing
+export function compileNode(node: MathNode): RealFunction {
+  const code: EvalFunction = node.compile()
+  const scope = { x: 0 }
+  return (x) => {
+    scope.x = x
+    try {
+      const result = code.evaluate(scope)
+      return typeof result === "number" ? result : Number.NaN
+    } catch (e) {
+      return Number.NaN
+    }
+  }
+}
+
+// Parse and compile expr once into a function of x that returns NaN instead of throwing
+export const compileFunction = cached((expr: string): RealFunction => {
+  try {
+    return compileNode(parseExpression(expr))
+  } catch (e) {
+    return () => Number.NaN
+  }
+})
+
+// Evaluate an expression of x, returning NaN instead of throwing
+export function safeEval(expr: string, x: number): number {
+  return compileFunction(expr)(x)
+}
@@ -0,0 +1,12 @@
+import { runJob, type EvaluationJob } from "./jobs"
+
+const ctx = self as unknown as Worker
+
+ctx.onmessage = (event: MessageEvent<{ id: number; job: EvaluationJob }>) => {
+  const { id, job } = event.data
+  try {
+    ctx.postMessage({ id, result: runJob(job) })
+  } catch (err) {
+    ctx.postMessage({ id, error: err instanceof Error ? err.message : String(err) })
+  }
+}
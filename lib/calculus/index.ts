@@ -0,0 +1,81 @@
+export type { Point, Range } from "./types"
+export { compileFunction, compileNode, safeEval, type RealFunction } from "./evaluate"
+export {
+  numericalDerivative,
+  symbolicDerivative,
+  derivativeAt,
+  tangentLine,
+  nthDerivatives,
+  nthDerivativeFunction,
+  differenceQuotient,
+  secantLine,
+  differenceQuotientTable,
+  type TangentLine,
+  type DifferenceQuotientRow,
+} from "./differentiate"
+export { derivationSteps, RULE_NAMES, RULE_FORMULAS, type DerivationRule, type DerivationStep } from "./steps"
+export { linspace, sampleCurve, type SampleOptions } from "./sample"
+export {
+  viewportScale,
+  mapToSVG,
+  mapFromSVG,
+  createPath,
+  createAreaPaths,
+  createPolygonPath,
+  squareYRange,
+  fitYRange,
+  tickStep,
+  type Viewport,
+} from "./coordinates"
+export { definiteIntegral, symbolicAntiderivative } from "./integrate"
+export {
+  riemannShapes,
+  riemannSum,
+  subintervalCount,
+  RIEMANN_METHODS,
+  type RiemannMethod,
+  type RiemannShape,
+} from "./riemann"
+export {
+  taylorCoefficients,
+  taylorPolynomial,
+  formatTaylorPolynomial,
+  usableTaylorDegree,
+  taylorSamples,
+  MAX_TAYLOR_DEGREE,
+  type TaylorSamples,
+} from "./taylor"
+export {
+  verifyDerivative,
+  isVerified,
+  type DerivativeCheck,
+  type DerivativeMismatch,
+  type VerifyOptions,
+} from "./verify"
+export {
+  findRoots,
+  findCriticalPoints,
+  CRITICAL_POINT_NAMES,
+  type CriticalPoint,
+  type CriticalPointKind,
+  type RootOptions,
+} from "./critical"
+export { summarizeCurve, describeCurve, type CurveSummary, type Monotonicity, type Trend } from "./summary"
+export { runJob, type EvaluationJob, type JobResult } from "./jobs"
+export { runInWorker, isAbortError, type RunOptions } from "./worker-client"
+export {
+  parseExpression,
+  parseForDisplay,
+  ExpressionError,
+  type ExpressionErrorKind,
+  ALLOWED_FUNCTIONS,
+  ALLOWED_CONSTANTS,
+  isParameterName,
+  MAX_EXPRESSION_LENGTH,
+  MAX_EXPRESSION_DEPTH,
+  MAX_CONSTANT,
+} from "./sandbox"
+export { findParameters, bindParameters, DEFAULT_PARAMETER, type ParameterSetting } from "./parameters"
+export { validateExpression, checkDomain, type ExpressionIssue } from "./validation"
+export { findToken, closestMatch } from "./tokens"
+export { typeset, type MathMLElement, type MathMLTag } from "./typeset"
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { definiteIntegral, symbolicAntiderivative } from "./integrate"
+
+describe("definiteIntegral", () => {
+  it.each([
+    ["x^2", [0, 1], 1 / 3],
+    ["sin(x)", [0, Math.PI], 2],
+    ["exp(x)", [0, 1], Math.E - 1],
+    ["1 / x", [1, Math.E], 1],
+    ["abs(x)", [-1, 2], 2.5],
+  ] as const)("integrates %s over %j", (expr, range, expected) => {
+    expect(definiteIntegral(expr, [...range])).toBeCloseTo(expected, 8)
+  })
+
+  it("changes sign when the bounds are swapped", () => {
+    expect(definiteIntegral("x^3", [2, 0])).toBeCloseTo(-4, 8)
+  })
+
+  it("is zero over an empty interval", () => {
+    expect(definiteIntegral("1 / x", [0, 0])).toBe(0)
+  })
+
+  it("is NaN where f is undefined", () => {
+    expect(definiteIntegral("sqrt(x)", [-1, 1])).toBeNaN()
+  })
+
+  it.each([
+    ["1 / x", [-1, 2]],
+    ["1 / x^2", [-1, 2]],
+    ["tan(x)", [0, 2]],
+    ["1 / (x - 1)", [0, 3]],
+  ] as const)("is NaN for %s over %j, which has a pole between the samples", (expr, range) => {
+    expect(definiteIntegral(expr, [...range])).toBeNaN()
+  })
+
+  it("integrates across jumps and integrable singularities", () => {
+    expect(definiteIntegral("floor(x)", [0, 3.5])).toBeCloseTo(4.5, 6)
+    expect(definiteIntegral("log(abs(x))", [-1, 2])).toBeCloseTo(2 * Math.log(2) - 3, 6)
+  })
+})
+
+describe("symbolicAntiderivative", () => {
+  it.each(["x^2", "sin(2 x + 1)", "1 / x", "3 * exp(x)", "sec(x)^2"])("finds F for %s", (expr) => {
+    expect(symbolicAntiderivative(expr)).not.toBeNull()
+  })
+
+  it("gives up on integrands outside its rules", () => {
+    expect(symbolicAntiderivative("x * sin(x)")).toBeNull()
+  })
+})
@@ -0,0 +1,211 @@
+import { isFunctionNode, isOperatorNode, isParenthesisNode, isSymbolNode, type MathNode } from "mathjs"
+import { cached } from "./cache"
+import { compileFunction, type RealFunction } from "./evaluate"
+import { derivative, parseExpression, simplify } from "./sandbox"
+import type { Range } from "./types"
+import { isVerified, verifyDerivative } from "./verify"
+
+const simpson = (fa: number, fm: number, fb: number, width: number) => (width / 6) * (fa + 4 * fm + fb)
+
+// Values this many times larger than any of the first samples, found where the refinement cannot
+// converge, mean f blows up there
+const BLOW_UP = 1e3
+
+// Numeric value of the integral of f from a to b by adaptive Simpson's rule.
+// NaN when f is undefined or unbounded somewhere on the interval, since the integral is then improper
+// and may not exist. Poles between samples show up as values that keep growing as the intervals that
+// straddle them are halved down to maxDepth.
+export function definiteIntegral(f: string | RealFunction, [a, b]: Range, tolerance = 1e-10, maxDepth = 20): number {
+  const fn = typeof f === "string" ? compileFunction(f) : f
+  if (a === b) return 0
+  if (a > b) return -definiteIntegral(fn, [b, a], tolerance, maxDepth)
+
+  let defined = true
+  const value = (x: number) => {
+    const y = fn(x)
+    if (!isFinite(y)) defined = false
+    return y
+  }
+
+  // Start from a few panels so narrow features between the first samples are not missed
+  const panels = 16
+  const width = (b - a) / panels
+  const xs = Array.from({ length: 2 * panels + 1 }, (_, i) => a + (i * width) / 2)
+  const ys = xs.map(value)
+  if (!defined) return Number.NaN
+  const bound = BLOW_UP * Math.max(1, ...ys.map(Math.abs))
+
+  const refine = (
+    lo: number,
+    hi: number,
+    flo: number,
+    fmid: number,
+    fhi: number,
+    whole: number,
+    eps: number,
+    depth: number,
+  ): number => {
+    const mid = (lo + hi) / 2
+    const fl = value((lo + mid) / 2)
+    const fr = value((mid + hi) / 2)
+    const left = simpson(flo, fl, fmid, mid - lo)
+    const right = simpson(fmid, fr, fhi, hi - mid)
+    const delta = left + right - whole
+
+    if (!defined || Math.abs(delta) <= 15 * eps) {
+      return left + right + delta / 15
+    }
+    if (depth >= maxDepth) {
+      if (Math.max(Math.abs(flo), Math.abs(fl), Math.abs(fmid), Math.abs(fr), Math.abs(fhi)) > bound) defined = false
+      return left + right + delta / 15
+    }
+    return (
+      refine(lo, mid, flo, fl, fmid, left, eps / 2, depth + 1) +
+      refine(mid, hi, fmid, fr, fhi, right, eps / 2, depth + 1)
+    )
+  }
+
+  let total = 0
+  for (let i = 0; i < panels && defined; i++) {
+    const [flo, fmid, fhi] = ys.slice(2 * i, 2 * i + 3)
+    total += refine(xs[2 * i], xs[2 * i + 2], flo, fmid, fhi, simpson(flo, fmid, fhi, width), tolerance / panels, 0)
+  }
+
+  return defined ? total : Number.NaN
+}
+
+const dependsOnX = (node: MathNode): boolean => node.filter((n) => isSymbolNode(n) && n.name === "x").length > 0
+
+const unwrap = (node: MathNode): MathNode => (isParenthesisNode(node) ? unwrap(node.content) : node)
+
+const constantValue = (node: MathNode): number => {
+  const value = node.compile().evaluate({})
+  return typeof value === "number" ? value : Number.NaN
+}
+
+// Coefficient a when node is a*x + b with a != 0, so that substituting u = node only rescales by 1/a
+const linearCoefficient = (node: MathNode): number | null => {
+  const slope = simplify(derivative(node, "x"))
+  if (dependsOnX(slope)) return null
+
+  const a = constantValue(slope)
+  return isFinite(a) && a !== 0 ? a : null
+}
+
+// Antiderivatives of f(u) with respect to u for the functions the integrator knows
+const FUNCTION_INTEGRALS: Record<string, (u: string) => string> = {
+  sin: (u) => `-cos(${u})`,
+  cos: (u) => `sin(${u})`,
+  tan: (u) => `-log(abs(cos(${u})))`,
+  cot: (u) => `log(abs(sin(${u})))`,
+  sec: (u) => `log(abs(sec(${u}) + tan(${u})))`,
+  csc: (u) => `-log(abs(csc(${u}) + cot(${u})))`,
+  sinh: (u) => `cosh(${u})`,
+  cosh: (u) => `sinh(${u})`,
+  tanh: (u) => `log(cosh(${u}))`,
+  exp: (u) => `exp(${u})`,
+  sqrt: (u) => `2/3 * (${u})^(3/2)`,
+  log: (u) => `(${u}) * log(${u}) - (${u})`,
+}
+
+// sec² and friends, the usual reason a power of a trig function shows up in an integrand
+const SQUARED_INTEGRALS: Record<string, (u: string) => string> = {
+  sec: (u) => `tan(${u})`,
+  csc: (u) => `-cot(${u})`,
+  sech: (u) => `tanh(${u})`,
+}
+
+// Integrate f(a*x + b) given the antiderivative F of f
+const substitute = (inner: MathNode, integral: (u: string) => string): string | null => {
+  const a = linearCoefficient(inner)
+  return a === null ? null : `(${integral(inner.toString())}) / ${a}`
+}
+
+// Rule-based integration of the common textbook forms: linearity, powers of linear terms, exponentials
+// and the elementary functions of a linear argument. Returns null for anything else.
+const integrate = (input: MathNode): string | null => {
+  const node = unwrap(input)
+
+  if (!dependsOnX(node)) return `(${node}) * x`
+  if (isSymbolNode(node)) return "x^2 / 2"
+
+  if (isOperatorNode(node)) {
+    const [g, h] = node.args.map(unwrap)
+
+    switch (node.fn) {
+      case "unaryPlus":
+        return integrate(g)
+      case "unaryMinus": {
+        const G = integrate(g)
+        return G === null ? null : `-(${G})`
+      }
+      case "add":
+      case "subtract": {
+        const G = integrate(g)
+        const H = integrate(h)
+        return G === null || H === null ? null : `(${G}) ${node.op} (${H})`
+      }
+      case "multiply": {
+        if (!dependsOnX(g)) {
+          const H = integrate(h)
+          return H === null ? null : `(${g}) * (${H})`
+        }
+        if (!dependsOnX(h)) {
+          const G = integrate(g)
+          return G === null ? null : `(${h}) * (${G})`
+        }
+        return null
+      }
+      case "divide": {
+        if (!dependsOnX(h)) {
+          const G = integrate(g)
+          return G === null ? null : `(${G}) / (${h})`
+        }
+        if (!dependsOnX(g)) {
+          const reciprocal = substitute(h, (u) => `log(abs(${u}))`)
+          return reciprocal === null ? null : `(${g}) * ${reciprocal}`
+        }
+        return null
+      }
+      case "pow": {
+        if (!dependsOnX(h)) {
+          const n = constantValue(h)
+          if (isFunctionNode(g) && n === 2 && SQUARED_INTEGRALS[g.fn.name]) {
+            return substitute(unwrap(g.args[0]), SQUARED_INTEGRALS[g.fn.name])
+          }
+          if (!isFinite(n)) return null
+          return n === -1
+            ? substitute(g, (u) => `log(abs(${u}))`)
+            : substitute(g, (u) => `(${u})^(${n + 1}) / ${n + 1}`)
+        }
+        if (!dependsOnX(g)) {
+          const base = constantValue(g)
+          if (!(base > 0) || base === 1) return null
+          return substitute(h, (u) => `(${g})^(${u}) / log(${g})`)
+        }
+        return null
+      }
+    }
+    return null
+  }
+
+  if (isFunctionNode(node) && node.args.length === 1 && FUNCTION_INTEGRALS[node.fn.name]) {
+    return substitute(unwrap(node.args[0]), FUNCTION_INTEGRALS[node.fn.name])
+  }
+  return null
+}
+
+// An antiderivative F of expr (without the + C), or null when none of the integration rules apply.
+// Each candidate is differentiated back and checked against expr before it is returned.
+export const symbolicAntiderivative = cached((expr: string): string | null => {
+  let candidate: string | null
+  try {
+    candidate = integrate(parseExpression(expr))
+    if (candidate === null) return null
+    candidate = simplify(parseExpression(candidate)).toString()
+  } catch (e) {
+    return null
+  }
+
+  return isVerified(verifyDerivative(candidate, expr)) ? candidate : null
+})
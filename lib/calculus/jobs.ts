@@ -0,0 +1,88 @@
+import { findCriticalPoints, type CriticalPoint } from "./critical"
+import { nthDerivativeFunction, numericalDerivative } from "./differentiate"
+import { definiteIntegral, symbolicAntiderivative } from "./integrate"
+import { sampleCurve, type SampleOptions } from "./sample"
+import { derivationSteps, type DerivationStep } from "./steps"
+import { summarizeCurve, type CurveSummary } from "./summary"
+import { taylorCoefficients, taylorSamples, type TaylorSamples } from "./taylor"
+import type { Point, Range } from "./types"
+
+// Work that can be shipped to the evaluation worker; everything here must survive structured cloning
+export type EvaluationJob =
+  | {
+      kind: "curve"
+      expr: string
+      range: Range
+      options?: SampleOptions
+      // Use the central-difference derivative of expr instead of expr itself
+      numericDerivative?: boolean
+      // Use the symbolic derivative of this order instead of expr itself
+      derivativeOrder?: number
+    }
+  | { kind: "values"; expr: string; xs: number[]; numericDerivative?: boolean; derivativeOrder?: number }
+  | { kind: "integral"; expr: string; range: Range }
+  | { kind: "antiderivative"; expr: string }
+  | { kind: "taylor"; expr: string; center: number; degree: number }
+  | {
+      kind: "taylorCurves"
+      expr: string
+      center: number
+      coefficients: number[]
+      range: Range
+      options?: SampleOptions
+    }
+  | { kind: "critical"; expr: string; range: Range }
+  | { kind: "summary"; expr: string; range: Range }
+  | { kind: "steps"; expr: string }
+
+export type JobResult<J extends EvaluationJob> = J extends { kind: "curve" }
+  ? Point[][]
+  : J extends { kind: "integral" }
+    ? number
+    : J extends { kind: "antiderivative" }
+      ? string | null
+      : J extends { kind: "taylorCurves" }
+        ? TaylorSamples
+        : J extends { kind: "critical" }
+          ? CriticalPoint[]
+          : J extends { kind: "summary" }
+            ? CurveSummary
+            : J extends { kind: "steps" }
+              ? DerivationStep[]
+              : number[]
+
+const jobFunction = ({
+  expr,
+  numericDerivative,
+  derivativeOrder = 0,
+}: {
+  expr: string
+  numericDerivative?: boolean
+  derivativeOrder?: number
+}) => (numericDerivative ? (x: number) => numericalDerivative(expr, x) : nthDerivativeFunction(expr, derivativeOrder))
+
+export function runJob<J extends EvaluationJob>(job: J): JobResult<J>
+export function runJob(
+  job: EvaluationJob,
+): Point[][] | number[] | number | string | null | TaylorSamples | CriticalPoint[] | CurveSummary | DerivationStep[] {
+  switch (job.kind) {
+    case "curve":
+      return sampleCurve(jobFunction(job), job.range, job.options)
+    case "values":
+      return job.xs.map(jobFunction(job))
+    case "integral":
+      return definiteIntegral(job.expr, job.range)
+    case "antiderivative":
+      return symbolicAntiderivative(job.expr)
+    case "taylor":
+      return taylorCoefficients(job.expr, job.center, job.degree)
+    case "taylorCurves":
+      return taylorSamples(job.expr, job.center, job.coefficients, job.range, job.options)
+    case "critical":
+      return findCriticalPoints(job.expr, job.range)
+    case "summary":
+      return summarizeCurve(job.expr, job.range)
+    case "steps":
+      return derivationSteps(job.expr)
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { safeEval } from "./evaluate"
+import { bindParameters, findParameters } from "./parameters"
+
+describe("findParameters", () => {
+  it("lists each parameter once, in alphabetical order", () => {
+    expect(findParameters("c + a * sin(b * x + c)")).toEqual(["a", "b", "c"])
+  })
+
+  it("leaves out x and the constants e and pi", () => {
+    expect(findParameters("e^x + pi")).toEqual([])
+    expect(findParameters("x^2")).toEqual([])
+  })
+
+  it("finds nothing in an invalid expression", () => {
+    expect(findParameters("a * sin(x")).toEqual([])
+  })
+})
+
+describe("bindParameters", () => {
+  it("substitutes the given values", () => {
+    expect(safeEval(bindParameters("a * x + b", { a: 3, b: 1 }), 2)).toBe(7)
+  })
+
+  it("keeps a negative value together when it is raised to a power", () => {
+    const bound = bindParameters("a^2 * x", { a: -2 })
+    expect(safeEval(bound, 1)).toBe(4)
+  })
+
+  it("uses the default for a parameter without a value", () => {
+    expect(safeEval(bindParameters("a * x", {}), 5)).toBe(5)
+  })
+
+  it("returns expressions without parameters and invalid ones unchanged", () => {
+    expect(bindParameters("x^2 + 1", { a: 2 })).toBe("x^2 + 1")
+    expect(bindParameters("a * (x", { a: 2 })).toBe("a * (x")
+  })
+})
@@ -0,0 +1,44 @@
+import { ConstantNode, isSymbolNode, ParenthesisNode, type MathNode } from "mathjs"
+import { isParameterName, parseExpression } from "./sandbox"
+
+// Value of a free parameter and the range its slider covers
+export interface ParameterSetting {
+  value: number
+  min: number
+  max: number
+}
+
+export const DEFAULT_PARAMETER: ParameterSetting = { value: 1, min: -5, max: 5 }
+
+const parameterNodes = (node: MathNode) =>
+  node.filter((child) => isSymbolNode(child) && isParameterName(child.name)) as Array<MathNode & { name: string }>
+
+// Free parameters of expr in alphabetical order, e.g. ["a", "b", "c"] for a*sin(b*x + c); empty when expr is invalid
+export function findParameters(expr: string): string[] {
+  try {
+    return [...new Set(parameterNodes(parseExpression(expr)).map((node) => node.name))].sort()
+  } catch (e) {
+    return []
+  }
+}
+
+// expr with every parameter replaced by its value, so the rest of the engine only ever sees functions of x.
+// Expressions without parameters, and invalid ones, come back unchanged.
+export function bindParameters(expr: string, values: Record<string, number>): string {
+  let node: MathNode
+  try {
+    node = parseExpression(expr)
+  } catch (e) {
+    return expr
+  }
+  if (parameterNodes(node).length === 0) return expr
+
+  return node
+    .transform((child) => {
+      if (!isSymbolNode(child) || !isParameterName(child.name)) return child
+      const value = values[child.name] ?? DEFAULT_PARAMETER.value
+      // Keep a^2 with a = -2 from reading back as -(2^2)
+      return value < 0 ? new ParenthesisNode(new ConstantNode(value)) : new ConstantNode(value)
+    })
+    .toString()
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+import { riemannShapes, riemannSum, subintervalCount } from "./riemann"
+
+describe("riemannSum", () => {
+  // x^2 on [0, 1] with four subintervals of width 1/4
+  it.each([
+    ["left", (0 + 1 / 16 + 1 / 4 + 9 / 16) / 4],
+    ["right", (1 / 16 + 1 / 4 + 9 / 16 + 1) / 4],
+    ["midpoint", (1 / 64 + 9 / 64 + 25 / 64 + 49 / 64) / 4],
+    ["trapezoid", (1 / 16 + 1 / 4 + 9 / 16 + 1 / 2) / 4],
+    ["simpson", 1 / 3],
+  ] as const)("matches the %s sum of x^2 on [0, 1]", (method, expected) => {
+    expect(riemannSum("x^2", [0, 1], 4, method)).toBeCloseTo(expected, 12)
+  })
+
+  it("is exact for cubics with Simpson's rule", () => {
+    expect(riemannSum("x^3 - x", [0, 2], 2, "simpson")).toBeCloseTo(2, 12)
+  })
+
+  it("changes sign when the bounds are reversed", () => {
+    expect(riemannSum("x^2", [1, 0], 4, "simpson")).toBeCloseTo(-1 / 3, 12)
+  })
+
+  it("is NaN when f is undefined at a sample", () => {
+    expect(riemannSum("sqrt(x)", [-1, 1], 4, "left")).toBeNaN()
+  })
+})
+
+describe("riemannShapes", () => {
+  it("draws one strip per subinterval, and one per pair for Simpson's rule", () => {
+    expect(riemannShapes("x", [0, 1], 5, "midpoint")).toHaveLength(5)
+    expect(riemannShapes("x", [0, 1], 6, "simpson")).toHaveLength(3)
+  })
+})
+
+describe("subintervalCount", () => {
+  it("rounds n up to an even count for Simpson's rule", () => {
+    expect(subintervalCount(3, "simpson")).toBe(4)
+    expect(subintervalCount(1, "simpson")).toBe(2)
+    expect(subintervalCount(3, "left")).toBe(3)
+  })
+})
@@ -0,0 +1,92 @@
+import { compileFunction, type RealFunction } from "./evaluate"
+import type { Point, Range } from "./types"
+
+export type RiemannMethod = "left" | "right" | "midpoint" | "trapezoid" | "simpson"
+
+export const RIEMANN_METHODS: Record<RiemannMethod, string> = {
+  left: "Left endpoint",
+  right: "Right endpoint",
+  midpoint: "Midpoint",
+  trapezoid: "Trapezoid rule",
+  simpson: "Simpson's rule",
+}
+
+// One rectangle, trapezoid or parabolic strip of an approximation, outlined in math coordinates
+export interface RiemannShape {
+  points: Point[]
+  // Signed contribution to the sum; negative when b < a or the strip lies below the x-axis
+  area: number
+}
+
+// Simpson's rule fits a parabola over each pair of subintervals, so it needs an even count
+export const subintervalCount = (n: number, method: RiemannMethod) =>
+  method === "simpson" ? Math.max(2, Math.ceil(n / 2) * 2) : Math.max(1, Math.round(n))
+
+// Points along the parabola through three equally spaced samples, for drawing a Simpson strip
+const PARABOLA_POINTS = 12
+
+export function riemannShapes(
+  f: string | RealFunction,
+  [a, b]: Range,
+  n: number,
+  method: RiemannMethod,
+): RiemannShape[] {
+  const fn = typeof f === "string" ? compileFunction(f) : f
+  const count = subintervalCount(n, method)
+  const width = (b - a) / count
+  const shapes: RiemannShape[] = []
+
+  if (method === "simpson") {
+    for (let i = 0; i < count; i += 2) {
+      const x0 = a + i * width
+      const [y0, y1, y2] = [fn(x0), fn(x0 + width), fn(x0 + 2 * width)]
+      // Newton form of the interpolating parabola in t = (x - x0) / width
+      const parabola = (t: number) => y0 + t * (y1 - y0) + ((t * (t - 1)) / 2) * (y2 - 2 * y1 + y0)
+      const arc = Array.from({ length: PARABOLA_POINTS + 1 }, (_, k) => {
+        const t = (2 * k) / PARABOLA_POINTS
+        return { x: x0 + t * width, y: parabola(t) }
+      })
+      shapes.push({
+        points: [{ x: x0, y: 0 }, ...arc, { x: x0 + 2 * width, y: 0 }],
+        area: (width / 3) * (y0 + 4 * y1 + y2),
+      })
+    }
+    return shapes
+  }
+
+  for (let i = 0; i < count; i++) {
+    const x0 = a + i * width
+    const x1 = x0 + width
+
+    if (method === "trapezoid") {
+      const [y0, y1] = [fn(x0), fn(x1)]
+      shapes.push({
+        points: [
+          { x: x0, y: 0 },
+          { x: x0, y: y0 },
+          { x: x1, y: y1 },
+          { x: x1, y: 0 },
+        ],
+        area: ((y0 + y1) / 2) * width,
+      })
+      continue
+    }
+
+    const height = fn(method === "left" ? x0 : method === "right" ? x1 : x0 + width / 2)
+    shapes.push({
+      points: [
+        { x: x0, y: 0 },
+        { x: x0, y: height },
+        { x: x1, y: height },
+        { x: x1, y: 0 },
+      ],
+      area: height * width,
+    })
+  }
+  return shapes
+}
+
+// Approximate the integral of f from a to b with n subintervals; NaN if f is undefined at a sample
+export function riemannSum(f: string | RealFunction, range: Range, n: number, method: RiemannMethod): number {
+  return riemannShapes(f, range, n, method).reduce((sum, shape) => sum + shape.area, 0)
+}
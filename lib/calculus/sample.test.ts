@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { sampleCurve } from "./sample"
+import type { Point } from "./types"
+
+// Whether a segment runs across x, which it must not do at a pole or a jump
+const spans = (segment: Point[], x: number) => segment[0].x < x && segment[segment.length - 1].x > x
+
+describe("sampleCurve", () => {
+  it("splits tan at each pole in range", () => {
+    const segments = sampleCurve("tan(x)", [-5, 5])
+    expect(segments).toHaveLength(5)
+    for (const pole of [-1.5, -0.5, 0.5, 1.5].map((k) => k * Math.PI)) {
+      expect(segments.some((segment) => spans(segment, pole))).toBe(false)
+    }
+  })
+
+  it("splits a rational function at the zero of its denominator", () => {
+    const segments = sampleCurve("(x^2 + 1) / x", [-5, 5])
+    expect(segments).toHaveLength(2)
+    expect(segments[0][segments[0].length - 1].x).toBeLessThan(0)
+    expect(segments[1][0].x).toBeGreaterThan(0)
+  })
+
+  it("splits floor at every jump, leaving each step flat", () => {
+    const segments = sampleCurve("floor(x)", [-2.5, 2.5])
+    expect(segments).toHaveLength(6)
+    for (const segment of segments) {
+      expect(new Set(segment.map(({ y }) => y)).size).toBe(1)
+    }
+  })
+
+  it("keeps a steep but continuous curve in one segment, refined where it bends", () => {
+    const segments = sampleCurve("atan(100 * x)", [-5, 5])
+    expect(segments).toHaveLength(1)
+    expect(segments[0].length).toBeGreaterThan(201)
+  })
+
+  it("adds no points to a curve that is smooth at the sampling scale", () => {
+    expect(sampleCurve("x^2", [-3, 3]).flat()).toHaveLength(201)
+  })
+
+  it("drops values beyond maxAbs and the gaps in the domain", () => {
+    expect(sampleCurve("sqrt(x)", [-5, 5])[0][0].x).toBeGreaterThanOrEqual(0)
+    expect(
+      sampleCurve("x^3", [-10, 10], { maxAbs: 8 })
+        .flat()
+        .every(({ y }) => Math.abs(y) <= 8),
+    ).toBe(true)
+  })
+})
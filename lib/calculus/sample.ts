@@ -0,0 +1,108 @@
+import { compileFunction, type RealFunction } from "./evaluate"
+import type { Point, Range } from "./types"
+
+// numIntervals + 1 evenly spaced x values covering range
+export function linspace(range: Range, numIntervals: number): number[] {
+  const step = (range[1] - range[0]) / numIntervals
+  const xs: number[] = []
+  for (let i = 0; i <= numIntervals; i++) {
+    xs.push(range[0] + i * step)
+  }
+  return xs
+}
+
+export interface SampleOptions {
+  // Uniform intervals sampled before refinement
+  initialSamples?: number
+  // How many times an interval may be halved
+  maxDepth?: number
+  // Points with |y| above this are dropped and split the curve
+  maxAbs?: number
+  // Vertical extent the tolerances are relative to; estimated from the samples when omitted
+  yScale?: number
+}
+
+// Spread of the middle 90% of finite values, so poles do not dominate the estimate
+const robustSpan = (ys: number[]) => {
+  const sorted = ys.filter(isFinite).sort((a, b) => a - b)
+  if (sorted.length < 2) return 1
+  const lo = sorted[Math.floor(sorted.length * 0.05)]
+  const hi = sorted[Math.ceil(sorted.length * 0.95) - 1]
+  return hi - lo || 1
+}
+
+// Sample f over range, adding points where the curve bends and splitting it into separate
+// segments at poles, jumps and gaps in the domain so that no segment crosses a discontinuity
+export function sampleCurve(
+  expr: string | RealFunction,
+  range: Range,
+  { initialSamples = 200, maxDepth = 8, maxAbs = 100, yScale }: SampleOptions = {},
+): Point[][] {
+  const f = typeof expr === "string" ? compileFunction(expr) : expr
+  const xs = linspace(range, initialSamples)
+  const ys = xs.map(f)
+
+  const scale = yScale ?? robustSpan(ys)
+  // A chord that misses the midpoint by more than this is refined
+  const bendTolerance = scale / 500
+  // Rises steeper than this are refined down to maxDepth to look for a discontinuity
+  const jumpThreshold = scale / 4
+
+  const segments: Point[][] = []
+  let current: Point[] = []
+
+  const breakSegment = () => {
+    if (current.length > 0) segments.push(current)
+    current = []
+  }
+
+  const emit = (x: number, y: number) => {
+    if (isFinite(y) && Math.abs(y) <= maxAbs) {
+      current.push({ x, y })
+    } else {
+      breakSegment()
+    }
+  }
+
+  // Emit points in (a, b]; a has already been emitted
+  const refine = (a: number, fa: number, b: number, fb: number, depth: number) => {
+    const finiteA = isFinite(fa)
+    const finiteB = isFinite(fb)
+
+    const m = (a + b) / 2
+    const fm = f(m)
+
+    if (depth >= maxDepth) {
+      // A continuous function splits its rise roughly evenly between the two halves even when steep;
+      // a jump or pole puts nearly all of it on one side or overshoots at the midpoint
+      const rise = Math.abs(fb - fa)
+      const overshoots = (fm - fa) * (fm - fb) > 0
+      const lopsided = Math.max(Math.abs(fm - fa), Math.abs(fb - fm)) > 0.9 * rise
+      if (finiteA && finiteB && rise > bendTolerance && (overshoots || lopsided)) breakSegment()
+      emit(b, fb)
+      return
+    }
+
+    const needsRefinement =
+      !finiteA ||
+      !finiteB ||
+      !isFinite(fm) ||
+      Math.abs(fm - (fa + fb) / 2) > bendTolerance ||
+      Math.abs(fb - fa) > jumpThreshold
+
+    if (needsRefinement && (finiteA || finiteB || isFinite(fm))) {
+      refine(a, fa, m, fm, depth + 1)
+      refine(m, fm, b, fb, depth + 1)
+    } else {
+      emit(b, fb)
+    }
+  }
+
+  emit(xs[0], ys[0])
+  for (let i = 1; i < xs.length; i++) {
+    refine(xs[i - 1], ys[i - 1], xs[i], ys[i], 0)
+  }
+  breakSegment()
+
+  return segments
+}
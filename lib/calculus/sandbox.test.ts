@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest"
+import { ExpressionError, MAX_EXPRESSION_LENGTH, parseExpression } from "./sandbox"
+import { validateExpression } from "./validation"
+
+describe("parseExpression", () => {
+  it("accepts functions of x with parameters and constants", () => {
+    expect(() => parseExpression("a * sin(b * x + c) + pi")).not.toThrow()
+  })
+
+  it("allows large values that stay finite", () => {
+    expect(() => parseExpression("exp(20) * x + 10^10 + factorial(20)")).not.toThrow()
+  })
+
+  it("rewrites ln to mathjs' natural log", () => {
+    expect(parseExpression("ln(x)").toString()).toBe("log(x)")
+  })
+
+  it.each([
+    ["evaluate(x)", "unsupported"],
+    ["foo(x)", "unknown"],
+    ["xy + 1", "unknown"],
+    ["f(x) = x", "unsupported"],
+    ["x == 1", "unsupported"],
+    ['"x"', "unsupported"],
+    ["1e7 * x", "limit"],
+    ["10^10^10", "limit"],
+    ["factorial(100000) * x", "limit"],
+    ["100000! + x", "limit"],
+    ["x^(10^10)", "limit"],
+    ["i * x", "unknown"],
+    ["x + ".repeat(MAX_EXPRESSION_LENGTH) + "x", "limit"],
+    ["(".repeat(40) + "x" + ")".repeat(40), "limit"],
+    ["sin(x", "syntax"],
+    ["sin x", "syntax"],
+    ["1/0", "undefined"],
+    ["x / (2 - 2)", "undefined"],
+  ])("rejects %s as %s", (expr, kind) => {
+    expect(() => parseExpression(expr)).toThrow(ExpressionError)
+    try {
+      parseExpression(expr)
+    } catch (err) {
+      expect((err as ExpressionError).kind).toBe(kind)
+    }
+  })
+})
+
+describe("validateExpression", () => {
+  it("returns null for a usable expression", () => {
+    expect(validateExpression("x^2 + 1")).toBeNull()
+  })
+
+  it("asks for input when the expression is empty", () => {
+    expect(validateExpression("  ")?.kind).toBe("syntax")
+  })
+
+  it("points at the offending characters", () => {
+    const issue = validateExpression("x + sine(x)")
+    expect(issue?.kind).toBe("unknown")
+    expect(issue?.message).toContain("did you mean 'sin'")
+    expect(issue?.span).toEqual([4, 8])
+  })
+
+  it("asks for parentheses after a function name", () => {
+    const issue = validateExpression("sin x")
+    expect(issue?.message).toContain("needs parentheses, as in sin(x)")
+    expect(issue?.span).toEqual([0, 3])
+  })
+
+  it("points at the / that divides by zero", () => {
+    const issue = validateExpression("(x/2) / 0")
+    expect(issue?.message).toContain("Division by zero")
+    expect(issue?.span).toEqual([6, 7])
+  })
+})
@@ -0,0 +1,301 @@
+import {
+  all,
+  create,
+  isAssignmentNode,
+  isConstantNode,
+  isFunctionAssignmentNode,
+  isFunctionNode,
+  isOperatorNode,
+  isParenthesisNode,
+  isSymbolNode,
+  type MathNode,
+} from "mathjs"
+import { closestMatch, findNumber, findSymbol, findToken } from "./tokens"
+
+// User input is untrusted: it is only ever parsed by this instance and checked against the
+// whitelists below before anything compiles or differentiates it.
+const math = create(all)
+
+// Keep working references to the functions the engine needs before they are disabled on the instance
+const { parse, derivative, simplify } = math
+
+const disabled = (name: string) => () => {
+  throw new Error(`Function ${name} is disabled`)
+}
+
+math.import(
+  Object.fromEntries(
+    ["import", "createUnit", "evaluate", "parse", "compile", "simplify", "derivative", "resolve", "reviver"].map(
+      (name) => [name, disabled(name)],
+    ),
+  ),
+  { override: true },
+)
+
+export { derivative, simplify }
+
+export const MAX_EXPRESSION_LENGTH = 200
+export const MAX_EXPRESSION_DEPTH = 32
+export const MAX_CONSTANT = 1e6
+
+export const ALLOWED_FUNCTIONS = new Set([
+  "sin",
+  "cos",
+  "tan",
+  "sec",
+  "csc",
+  "cot",
+  "asin",
+  "acos",
+  "atan",
+  "asec",
+  "acsc",
+  "acot",
+  "sinh",
+  "cosh",
+  "tanh",
+  "sech",
+  "csch",
+  "coth",
+  "asinh",
+  "acosh",
+  "atanh",
+  "exp",
+  "log",
+  "ln",
+  "log10",
+  "log2",
+  "sqrt",
+  "cbrt",
+  "nthRoot",
+  "abs",
+  "sign",
+  "floor",
+  "ceil",
+  "round",
+  "factorial",
+  "gamma",
+])
+
+export const ALLOWED_CONSTANTS = new Set(["pi", "e", "tau", "phi", "PI", "E"])
+
+// Free parameters are single lowercase letters other than x, the constant e and mathjs' imaginary unit i,
+// as in a*sin(b*x + c)
+export const isParameterName = (name: string) =>
+  /^[a-z]$/.test(name) && name !== "x" && name !== "i" && !ALLOWED_CONSTANTS.has(name)
+
+const ALLOWED_OPERATORS = new Set([
+  "add",
+  "subtract",
+  "multiply",
+  "divide",
+  "pow",
+  "unaryMinus",
+  "unaryPlus",
+  "factorial",
+])
+
+// "undefined" is for constant parts without a value, such as 1/0
+export type ExpressionErrorKind = "syntax" | "unknown" | "unsupported" | "limit" | "undefined"
+
+export class ExpressionError extends Error {
+  // [start, end) of the offending characters in the input, when they can be located
+  readonly span?: [number, number]
+
+  constructor(
+    message: string,
+    readonly kind: ExpressionErrorKind,
+    span?: [number, number],
+  ) {
+    super(message)
+    this.name = "ExpressionError"
+    this.span = span
+  }
+}
+
+const depthOf = (node: MathNode): number => {
+  let deepest = 0
+  node.forEach((child) => {
+    deepest = Math.max(deepest, depthOf(child))
+  })
+  return deepest + 1
+}
+
+const atColumn = (span: [number, number] | undefined) => (span ? ` at column ${span[0] + 1}` : "")
+
+const didYouMean = (suggestion: string | undefined) => (suggestion ? `, did you mean '${suggestion}'?` : "")
+
+const check = (node: MathNode, source: string): void => {
+  if (isConstantNode(node)) {
+    if (typeof node.value !== "number") {
+      const span = findToken(source, String(node))
+      throw new ExpressionError(`Only numbers are allowed, found ${node}${atColumn(span)}`, "unsupported", span)
+    }
+    if (Math.abs(node.value) > MAX_CONSTANT) {
+      const span = findNumber(source, node.value)
+      throw new ExpressionError(
+        `Number ${node.value}${atColumn(span)} is too large (the limit is ${MAX_CONSTANT})`,
+        "limit",
+        span,
+      )
+    }
+  } else if (isSymbolNode(node)) {
+    // sin x is read as the product of a variable sin and x
+    if (ALLOWED_FUNCTIONS.has(node.name)) {
+      const span = findToken(source, node.name)
+      throw new ExpressionError(
+        `Function '${node.name}'${atColumn(span)} needs parentheses, as in ${node.name}(x)`,
+        "syntax",
+        span,
+      )
+    }
+    if (node.name !== "x" && !ALLOWED_CONSTANTS.has(node.name) && !isParameterName(node.name)) {
+      const span = findToken(source, node.name)
+      const suggestion = closestMatch(node.name, ["x", ...ALLOWED_CONSTANTS, ...ALLOWED_FUNCTIONS])
+      throw new ExpressionError(
+        `Unknown variable '${node.name}'${atColumn(span)}${didYouMean(suggestion)}` +
+          (suggestion ? "" : ": only x, single-letter parameters and the constants pi, e, tau and phi are allowed"),
+        "unknown",
+        span,
+      )
+    }
+  } else if (isFunctionNode(node)) {
+    const name = isSymbolNode(node.fn) ? node.fn.name : String(node.fn)
+    if (!ALLOWED_FUNCTIONS.has(name)) {
+      const span = findToken(source, name)
+      // mathjs knows the name but it is off limits here
+      if (name in math) {
+        throw new ExpressionError(`Function '${name}'${atColumn(span)} is not allowed`, "unsupported", span)
+      }
+      const suggestion = closestMatch(name, ALLOWED_FUNCTIONS)
+      throw new ExpressionError(`Unknown function '${name}'${atColumn(span)}${didYouMean(suggestion)}`, "unknown", span)
+    }
+    node.args.forEach((arg) => check(arg, source))
+  } else if (isOperatorNode(node)) {
+    if (!ALLOWED_OPERATORS.has(node.fn)) {
+      const span = findToken(source, node.op)
+      throw new ExpressionError(`Operator '${node.op}'${atColumn(span)} is not allowed`, "unsupported", span)
+    }
+    node.args.forEach((arg) => check(arg, source))
+  } else if (isParenthesisNode(node)) {
+    check(node.content, source)
+  } else if (isAssignmentNode(node) || isFunctionAssignmentNode(node)) {
+    const span = findToken(source, "=")
+    throw new ExpressionError(
+      `Assignments are not allowed${atColumn(span)}; enter an expression in x such as x^2 + 1`,
+      "unsupported",
+      span,
+    )
+  } else {
+    throw new ExpressionError(`'${node}' is not allowed in a function of x`, "unsupported")
+  }
+}
+
+// Whether node has a value without x or any parameter, as in 10^10 or factorial(3) * pi
+const isConstant = (node: MathNode) =>
+  node.filter((child) => isSymbolNode(child) && (child.name === "x" || isParameterName(child.name))).length === 0
+
+const constantValue = (node: MathNode) => {
+  try {
+    const value = node.compile().evaluate({})
+    return typeof value === "number" ? value : Number.NaN
+  } catch (e) {
+    return Number.NaN
+  }
+}
+
+// Nodes in the order they are written, so the nth division among them is the nth / in the source
+const inSourceOrder = (node: MathNode): MathNode[] => {
+  if (isOperatorNode(node) && node.args.length === 2) {
+    return [...inSourceOrder(node.args[0]), node, ...inSourceOrder(node.args[1])]
+  }
+  const nodes = [node]
+  node.forEach((child) => nodes.push(...inSourceOrder(child)))
+  return nodes
+}
+
+// A constant divisor of zero, as in 1/0 or x/(2 - 2), leaves f undefined everywhere
+const checkDivisions = (node: MathNode, source: string) => {
+  const divisions = inSourceOrder(node)
+    .filter(isOperatorNode)
+    .filter((child) => child.fn === "divide")
+  divisions.forEach((division, i) => {
+    const divisor = division.args[1]
+    if (isConstant(divisor) && constantValue(divisor) === 0) {
+      const span = findSymbol(source, "/", i)
+      throw new ExpressionError(`Division by zero${atColumn(span)}`, "undefined", span)
+    }
+  })
+}
+
+// The literal limit only sees numbers as written, so values computed from them, such as 10^10^10 or
+// factorial(100000), must not overflow either, and exponents are held to the same limit as literals
+const checkComputed = (node: MathNode): void => {
+  node.forEach((child) => checkComputed(child))
+
+  if ((isOperatorNode(node) || isFunctionNode(node)) && isConstant(node)) {
+    const value = constantValue(node)
+    if (value === Number.POSITIVE_INFINITY || value === Number.NEGATIVE_INFINITY) {
+      throw new ExpressionError(`'${node}' is too large to compute`, "limit")
+    }
+  }
+  // x^(10^10) overflows for most x without any constant doing so
+  if (isOperatorNode(node) && node.fn === "pow" && isConstant(node.args[1])) {
+    const exponent = constantValue(node.args[1])
+    if (Math.abs(exponent) > MAX_CONSTANT) {
+      throw new ExpressionError(`Exponent ${node.args[1]} is too large (the limit is ${MAX_CONSTANT})`, "limit")
+    }
+  }
+}
+
+// mathjs reports syntax errors as "<reason> (char N)" with N the 1-based column of the offending token
+const fromSyntaxError = (err: SyntaxError & { char?: number }, source: string) => {
+  const reason = err.message.replace(/\s*\(char \d+\)$/, "")
+  if (typeof err.char !== "number") return new ExpressionError(reason, "syntax")
+
+  const start = Math.min(Math.max(err.char - 1, 0), source.length)
+  const span: [number, number] = [start, Math.min(start + 1, source.length)]
+  return new ExpressionError(`${reason}${atColumn(span)}`, "syntax", span)
+}
+
+// Parse without the whitelists, only to typeset the result: the tree is never compiled or evaluated, and
+// formulas such as g'(x) · h(x) use names that the checks would reject
+export function parseForDisplay(expr: string): MathNode {
+  if (expr.length > 4 * MAX_EXPRESSION_LENGTH) throw new ExpressionError("Expression is too long to display", "limit")
+  const node = parse(expr)
+  if (depthOf(node) > 2 * MAX_EXPRESSION_DEPTH) throw new ExpressionError("Expression is nested too deeply", "limit")
+  return node
+}
+
+// Parse untrusted input into a validated AST, with ln(u) rewritten to mathjs' natural log(u).
+// Throws ExpressionError explaining why the input was rejected and where.
+export function parseExpression(expr: string): MathNode {
+  if (expr.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(
+      `Expression is too long (${expr.length} characters, the limit is ${MAX_EXPRESSION_LENGTH})`,
+      "limit",
+      [MAX_EXPRESSION_LENGTH, expr.length],
+    )
+  }
+
+  let node: MathNode
+  try {
+    node = parse(expr)
+  } catch (err) {
+    throw err instanceof SyntaxError ? fromSyntaxError(err, expr) : err
+  }
+
+  if (depthOf(node) > MAX_EXPRESSION_DEPTH) {
+    throw new ExpressionError(`Expression is nested too deeply (the limit is ${MAX_EXPRESSION_DEPTH} levels)`, "limit")
+  }
+  check(node, expr)
+
+  const rewritten = node.transform((child) =>
+    isFunctionNode(child) && child.fn.name === "ln"
+      ? new math.FunctionNode(new math.SymbolNode("log"), child.args)
+      : child,
+  )
+  checkDivisions(rewritten, expr)
+  checkComputed(rewritten)
+  return rewritten
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import { safeEval } from "./evaluate"
+import { derivationSteps } from "./steps"
+
+const rules = (expr: string) => derivationSteps(expr).map(({ rule, depth }) => [rule, depth])
+
+// The final result of the steps, f', agrees with expected at a few points
+const expectDerivative = (expr: string, expected: (x: number) => number) => {
+  const [outer] = derivationSteps(expr)
+  for (const x of [0.5, 1, 2]) expect(safeEval(outer.result, x)).toBeCloseTo(expected(x), 10)
+}
+
+describe("derivationSteps", () => {
+  it("lists the product rule before the rules for each factor", () => {
+    expect(rules("x^2 * sin(x)")).toEqual([
+      ["product", 0],
+      ["power", 1],
+      ["elementary", 1],
+    ])
+    expectDerivative("x^2 * sin(x)", (x) => 2 * x * Math.sin(x) + x ** 2 * Math.cos(x))
+  })
+
+  it("lists the quotient rule before the numerator and the denominator", () => {
+    expect(rules("sin(x) / x")).toEqual([
+      ["quotient", 0],
+      ["elementary", 1],
+      ["identity", 1],
+    ])
+    expectDerivative("sin(x) / x", (x) => (x * Math.cos(x) - Math.sin(x)) / x ** 2)
+  })
+
+  it("applies the chain rule from the outside in", () => {
+    expect(rules("sin(x^2)")).toEqual([
+      ["chain", 0],
+      ["power", 1],
+    ])
+    expect(derivationSteps("sin(x^2)")[0].details).toContain("u = x ^ 2")
+    expectDerivative("sin(x^2)", (x) => 2 * x * Math.cos(x ** 2))
+  })
+
+  it("stops at a constant", () => {
+    expect(derivationSteps("5")).toEqual([{ rule: "constant", depth: 0, expression: "5", result: "0", details: [] }])
+  })
+})
@@ -0,0 +1,170 @@
+import {
+  FunctionNode,
+  isFunctionNode,
+  isOperatorNode,
+  isParenthesisNode,
+  isSymbolNode,
+  SymbolNode,
+  type MathNode,
+} from "mathjs"
+import { derivative, parseExpression, simplify } from "./sandbox"
+
+export type DerivationRule =
+  | "constant"
+  | "identity"
+  | "sum"
+  | "difference"
+  | "constantMultiple"
+  | "product"
+  | "quotient"
+  | "power"
+  | "exponential"
+  | "generalPower"
+  | "elementary"
+  | "chain"
+
+// One rule application while differentiating a subexpression of the input
+export interface DerivationStep {
+  rule: DerivationRule
+  // Nesting level, 0 for the rule applied to the whole expression
+  depth: number
+  expression: string
+  result: string
+  details: string[]
+}
+
+export const RULE_NAMES: Record<DerivationRule, string> = {
+  constant: "Constant rule",
+  identity: "Identity rule",
+  sum: "Sum rule",
+  difference: "Difference rule",
+  constantMultiple: "Constant multiple rule",
+  product: "Product rule",
+  quotient: "Quotient rule",
+  power: "Power rule",
+  exponential: "Exponential rule",
+  generalPower: "Generalised power rule",
+  elementary: "Standard derivative",
+  chain: "Chain rule",
+}
+
+// Prose with the math between $ signs, in expression syntax, so it can be typeset
+export const RULE_FORMULAS: Record<DerivationRule, string> = {
+  constant: "$(c)' = 0$",
+  identity: "$(x)' = 1$",
+  sum: "$(g + h)' = g' + h'$",
+  difference: "$(g - h)' = g' - h'$",
+  constantMultiple: "$(c * g)' = c * g'$",
+  product: "$(g * h)' = g' * h + g * h'$",
+  quotient: "$(g / h)' = (g' * h - g * h') / h^2$",
+  power: "$(u^n)' = n * u^(n - 1) * u'$",
+  exponential: "$(a^u)' = a^u * ln(a) * u'$",
+  generalPower: "$(g^h)' = g^h * (h' * ln(g) + h * g' / g)$",
+  elementary: "Table of standard derivatives",
+  chain: "$(g(u))' = g'(u) * u'$",
+}
+
+const dependsOnX = (node: MathNode): boolean => node.filter((n) => isSymbolNode(n) && n.name === "x").length > 0
+
+const unwrap = (node: MathNode): MathNode => (isParenthesisNode(node) ? unwrap(node.content) : node)
+
+const d = (node: MathNode, variable = "x"): string => simplify(derivative(node, variable)).toString()
+
+// Walk the AST of expr and list each differentiation rule in the order a student would apply it
+export function derivationSteps(expr: string): DerivationStep[] {
+  const steps: DerivationStep[] = []
+
+  const visit = (input: MathNode, depth: number) => {
+    const node = unwrap(input)
+    const step: DerivationStep = { rule: "constant", depth, expression: node.toString(), result: "0", details: [] }
+    // Reserve the slot so the outer rule is listed before the rules it relies on
+    steps.push(step)
+
+    if (!dependsOnX(node)) {
+      return
+    }
+    step.result = d(node)
+
+    if (isSymbolNode(node)) {
+      step.rule = "identity"
+      return
+    }
+
+    if (isOperatorNode(node)) {
+      const [g, h] = node.args.map(unwrap)
+
+      switch (node.fn) {
+        case "unaryPlus":
+        case "unaryMinus":
+          step.rule = "constantMultiple"
+          step.details = [`c = ${node.fn === "unaryMinus" ? "-1" : "1"}`, `g = ${g}`, `g' = ${d(g)}`]
+          visit(g, depth + 1)
+          return
+
+        case "add":
+        case "subtract":
+          step.rule = node.fn === "add" ? "sum" : "difference"
+          step.details = [`g = ${g}`, `h = ${h}`, `g' = ${d(g)}`, `h' = ${d(h)}`]
+          ;[g, h].filter(dependsOnX).forEach((term) => visit(term, depth + 1))
+          return
+
+        case "multiply":
+        case "divide":
+          if (!dependsOnX(h)) {
+            step.rule = "constantMultiple"
+            step.details = [`c = ${node.fn === "divide" ? `1/${h}` : h}`, `g = ${g}`, `g' = ${d(g)}`]
+            visit(g, depth + 1)
+          } else if (node.fn === "multiply" && !dependsOnX(g)) {
+            step.rule = "constantMultiple"
+            step.details = [`c = ${g}`, `g = ${h}`, `g' = ${d(h)}`]
+            visit(h, depth + 1)
+          } else {
+            step.rule = node.fn === "multiply" ? "product" : "quotient"
+            step.details = [`g = ${g}`, `h = ${h}`, `g' = ${d(g)}`, `h' = ${d(h)}`]
+            ;[g, h].filter(dependsOnX).forEach((factor) => visit(factor, depth + 1))
+          }
+          return
+
+        case "pow":
+          if (!dependsOnX(h)) {
+            step.rule = "power"
+            step.details = [`u = ${g}`, `n = ${h}`, `u' = ${d(g)}`]
+            if (!isSymbolNode(g)) visit(g, depth + 1)
+          } else if (!dependsOnX(g)) {
+            step.rule = "exponential"
+            step.details = [`a = ${g}`, `u = ${h}`, `u' = ${d(h)}`]
+            if (!isSymbolNode(h)) visit(h, depth + 1)
+          } else {
+            step.rule = "generalPower"
+            step.details = [`g = ${g}`, `h = ${h}`, `g' = ${d(g)}`, `h' = ${d(h)}`]
+            visit(g, depth + 1)
+            visit(h, depth + 1)
+          }
+          return
+      }
+    }
+
+    if (isFunctionNode(node) && node.args.length === 1) {
+      const inner = unwrap(node.args[0])
+      const name = node.fn.name
+      const outer = new FunctionNode(new SymbolNode(name), [new SymbolNode("u")])
+
+      if (isSymbolNode(inner)) {
+        step.rule = "elementary"
+        step.details = [`d/dx ${node} = ${step.result}`]
+        return
+      }
+
+      step.rule = "chain"
+      step.details = [`g(u) = ${outer}`, `u = ${inner}`, `g'(u) = ${d(outer, "u")}`, `u' = ${d(inner)}`]
+      visit(inner, depth + 1)
+      return
+    }
+
+    // Anything else mathjs can differentiate but has no named rule here
+    step.rule = "elementary"
+  }
+
+  visit(parseExpression(expr), 0)
+  return steps
+}
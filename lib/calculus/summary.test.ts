@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+import { describeCurve, summarizeCurve } from "./summary"
+
+describe("summarizeCurve", () => {
+  it("finds the intercepts, extrema and where a parabola falls and rises", () => {
+    const summary = summarizeCurve("x^2 - 1", [-3, 3])
+    summary.xIntercepts.forEach((x, i) => expect(x).toBeCloseTo([-1, 1][i], 8))
+    expect(summary.yIntercept).toBeCloseTo(-1, 12)
+    expect(summary.extrema.map(({ kind }) => kind)).toEqual(["min"])
+    expect(summary.monotonicity.map(({ trend }) => trend)).toEqual(["decreasing", "increasing"])
+    expect(summary.breaks).toBe(0)
+  })
+
+  it("keeps rising through a saddle", () => {
+    const summary = summarizeCurve("x^3", [-2, 2])
+    expect(summary.extrema).toEqual([])
+    expect(summary.monotonicity).toEqual([{ from: -2, to: 2, trend: "increasing" }])
+  })
+
+  it("treats each side of a pole separately and has no y-intercept there", () => {
+    const summary = summarizeCurve("1/x", [-2, 2])
+    expect(summary.yIntercept).toBeNull()
+    expect(summary.breaks).toBe(1)
+    expect(summary.monotonicity).toHaveLength(2)
+    expect(summary.monotonicity[0].to).toBeLessThan(0)
+    expect(summary.monotonicity[1].from).toBeGreaterThan(0)
+  })
+
+  it("only describes the part of the range where f is defined", () => {
+    const summary = summarizeCurve("sqrt(x)", [-4, 4])
+    expect(summary.monotonicity).toEqual([{ from: 0, to: 4, trend: "increasing" }])
+    expect(summary.breaks).toBe(0)
+  })
+
+  it("finds nothing when f is undefined on the whole range", () => {
+    const summary = summarizeCurve("sqrt(-1 - x^2)", [-2, 2])
+    expect(summary).toMatchObject({ xIntercepts: [], yIntercept: null, extrema: [], monotonicity: [], breaks: 0 })
+  })
+})
+
+describe("describeCurve", () => {
+  it("reads the summary as sentences", () => {
+    expect(describeCurve(summarizeCurve("x^2 - 1", [-3, 3]))).toEqual([
+      "Showing x from -3 to 3.",
+      "The curve crosses the x-axis at x = -1 and 1.",
+      "It meets the y-axis at y = -1.",
+      "Local minima at (0, -1).",
+      "Increasing from x = 0 to 3.",
+      "Decreasing from x = -3 to 0.",
+    ])
+  })
+
+  it("counts the breaks and cuts long lists short", () => {
+    const sentences = describeCurve(summarizeCurve("tan(x)", [-10, 10]))
+    expect(sentences).toContain("The curve is broken in 6 places, at a pole, jump or gap.")
+    expect(sentences[1]).toMatch(/and 1 more\.$/)
+  })
+})
@@ -0,0 +1,112 @@
+import { findCriticalPoints, findRoots, type CriticalPoint } from "./critical"
+import { numericalDerivative } from "./differentiate"
+import { compileFunction } from "./evaluate"
+import { sampleCurve } from "./sample"
+import type { Range } from "./types"
+
+export type Trend = "increasing" | "decreasing"
+
+// A stretch of x over which f keeps rising or keeps falling
+export interface Monotonicity {
+  from: number
+  to: number
+  trend: Trend
+}
+
+// What a reader needs to picture the curve without seeing it
+export interface CurveSummary {
+  range: Range
+  xIntercepts: number[]
+  // f(0), when 0 is in range and f is defined there
+  yIntercept: number | null
+  extrema: CriticalPoint[]
+  monotonicity: Monotonicity[]
+  // Places where the curve is cut by a pole, jump or gap in its domain
+  breaks: number
+}
+
+// Intercepts, extrema and where f rises and falls on range. Monotonicity is worked out separately
+// on each piece of the curve between discontinuities, split at the stationary points within it.
+export function summarizeCurve(expr: string, range: Range): CurveSummary {
+  const f = compileFunction(expr)
+  // Without the usual cut-off for large values, which would end steep pieces early
+  const segments = sampleCurve(f, range, { maxAbs: Number.POSITIVE_INFINITY }).filter((segment) => segment.length > 1)
+  const stationary = findCriticalPoints(expr, range).filter((point) => point.kind !== "inflection")
+  const yIntercept = range[0] <= 0 && range[1] >= 0 && isFinite(f(0)) ? f(0) : null
+
+  const monotonicity: Monotonicity[] = []
+  for (const segment of segments) {
+    const start = segment[0].x
+    const end = segment[segment.length - 1].x
+    const cuts = [start, ...stationary.map((point) => point.x).filter((x) => x > start && x < end), end]
+
+    for (let i = 0; i < cuts.length - 1; i++) {
+      const slope = numericalDerivative(expr, (cuts[i] + cuts[i + 1]) / 2)
+      if (!isFinite(slope) || slope === 0) continue
+      const trend: Trend = slope > 0 ? "increasing" : "decreasing"
+      const last = monotonicity[monotonicity.length - 1]
+      // Saddles do not change the trend, and neither side of a break joins the other
+      if (last && last.trend === trend && last.to === cuts[i] && i > 0) {
+        last.to = cuts[i + 1]
+      } else {
+        monotonicity.push({ from: cuts[i], to: cuts[i + 1], trend })
+      }
+    }
+  }
+
+  return {
+    range,
+    xIntercepts: findRoots(f, range),
+    yIntercept,
+    extrema: stationary.filter((point) => point.kind !== "saddle"),
+    monotonicity,
+    breaks: Math.max(0, segments.length - 1),
+  }
+}
+
+// Listed values beyond this many are only counted
+const MAX_LISTED = 6
+
+const formatValue = (value: number) => {
+  const rounded = Number(value.toFixed(2))
+  return String(rounded === 0 ? 0 : rounded)
+}
+
+// "a", "a and b", "a, b and c", cutting long lists short
+const listOf = (items: string[]) => {
+  const shown = items.length > MAX_LISTED ? [...items.slice(0, MAX_LISTED), `${items.length - MAX_LISTED} more`] : items
+  return shown.length > 1 ? `${shown.slice(0, -1).join(", ")} and ${shown[shown.length - 1]}` : shown[0]
+}
+
+const intervalText = ({ from, to }: Monotonicity) => `x = ${formatValue(from)} to ${formatValue(to)}`
+
+// The summary in plain sentences, suitable for reading aloud
+export function describeCurve(summary: CurveSummary): string[] {
+  const { range, xIntercepts, yIntercept, extrema, monotonicity, breaks } = summary
+  const sentences = [`Showing x from ${formatValue(range[0])} to ${formatValue(range[1])}.`]
+
+  sentences.push(
+    xIntercepts.length > 0
+      ? `The curve crosses the x-axis at x = ${listOf(xIntercepts.map(formatValue))}.`
+      : "The curve does not cross the x-axis here.",
+  )
+  if (yIntercept !== null) sentences.push(`It meets the y-axis at y = ${formatValue(yIntercept)}.`)
+
+  const maxima = extrema.filter((point) => point.kind === "max")
+  const minima = extrema.filter((point) => point.kind === "min")
+  const pointList = (points: CriticalPoint[]) =>
+    listOf(points.map(({ x, y }) => `(${formatValue(x)}, ${formatValue(y)})`))
+  if (maxima.length > 0) sentences.push(`Local maxima at ${pointList(maxima)}.`)
+  if (minima.length > 0) sentences.push(`Local minima at ${pointList(minima)}.`)
+  if (extrema.length === 0) sentences.push("There are no local maxima or minima here.")
+
+  const rising = monotonicity.filter((interval) => interval.trend === "increasing")
+  const falling = monotonicity.filter((interval) => interval.trend === "decreasing")
+  if (rising.length > 0) sentences.push(`Increasing from ${listOf(rising.map(intervalText))}.`)
+  if (falling.length > 0) sentences.push(`Decreasing from ${listOf(falling.map(intervalText))}.`)
+
+  if (breaks > 0) {
+    sentences.push(`The curve is broken in ${breaks} ${breaks === 1 ? "place" : "places"}, at a pole, jump or gap.`)
+  }
+  return sentences
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+import { formatTaylorPolynomial, taylorCoefficients, taylorPolynomial, usableTaylorDegree } from "./taylor"
+
+describe("taylorCoefficients", () => {
+  it("gives 1/k! for exp at 0", () => {
+    const coefficients = taylorCoefficients("exp(x)", 0, 5)
+    expect(coefficients).toHaveLength(6)
+    ;[1, 1, 1 / 2, 1 / 6, 1 / 24, 1 / 120].forEach((expected, k) => expect(coefficients[k]).toBeCloseTo(expected, 12))
+  })
+
+  it("alternates through the odd terms for sin", () => {
+    const coefficients = taylorCoefficients("sin(x)", 0, 5)
+    ;[0, 1, 0, -1 / 6, 0, 1 / 120].forEach((expected, k) => expect(coefficients[k]).toBeCloseTo(expected, 12))
+  })
+
+  it("expands about other centres", () => {
+    const coefficients = taylorCoefficients("log(x)", 1, 3)
+    ;[0, 1, -1 / 2, 1 / 3].forEach((expected, k) => expect(coefficients[k]).toBeCloseTo(expected, 12))
+  })
+
+  it("stops being usable at the first derivative that is undefined at the centre", () => {
+    const coefficients = taylorCoefficients("sqrt(x)", 0, 2)
+    expect(coefficients[0]).toBe(0)
+    expect(Number.isFinite(coefficients[1])).toBe(false)
+    expect(usableTaylorDegree(coefficients, 2)).toBe(0)
+  })
+})
+
+describe("taylorPolynomial", () => {
+  it("evaluates the partial sum in powers of (x - center)", () => {
+    const p = taylorPolynomial([1, 2, 3], 1)
+    expect(p(3)).toBe(1 + 2 * 2 + 3 * 4)
+    expect(taylorPolynomial([1, 2, 3], 1, 1)(3)).toBe(5)
+  })
+})
+
+describe("formatTaylorPolynomial", () => {
+  it("writes out the nonzero terms", () => {
+    expect(formatTaylorPolynomial([1, -0.5, 0, 0.125], 2, 3)).toBe("1 - 0.5 (x - 2) + 0.125 (x - 2)^3")
+    expect(formatTaylorPolynomial([0, 0], 0, 1)).toBe("0")
+  })
+})
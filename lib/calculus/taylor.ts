@@ -0,0 +1,91 @@
+import { nthDerivatives } from "./differentiate"
+import { compileFunction, type RealFunction } from "./evaluate"
+import { sampleCurve, type SampleOptions } from "./sample"
+import type { Point, Range } from "./types"
+
+// Higher orders make the symbolic derivatives of even simple functions grow out of hand
+export const MAX_TAYLOR_DEGREE = 10
+
+// Taylor coefficients f⁽ᵏ⁾(a) / k! for k = 0..degree; NaN where a derivative is undefined at a
+export function taylorCoefficients(expr: string, center: number, degree: number): number[] {
+  let factorial = 1
+  return nthDerivatives(expr, degree).map((node, k) => {
+    if (k > 0) factorial *= k
+    try {
+      const value = node.compile().evaluate({ x: center })
+      return typeof value === "number" ? value / factorial : Number.NaN
+    } catch (e) {
+      return Number.NaN
+    }
+  })
+}
+
+// The partial sum P_degree as a function of x, evaluated by Horner's rule in (x - center)
+export function taylorPolynomial(
+  coefficients: number[],
+  center: number,
+  degree = coefficients.length - 1,
+): RealFunction {
+  return (x) => {
+    const t = x - center
+    let sum = 0
+    for (let k = degree; k >= 0; k--) sum = sum * t + coefficients[k]
+    return sum
+  }
+}
+
+// Highest degree up to degree whose coefficients are all defined, -1 when f itself is undefined at the center
+export function usableTaylorDegree(coefficients: number[], degree: number): number {
+  const undefinedOrder = coefficients.findIndex((coefficient) => !isFinite(coefficient))
+  return undefinedOrder === -1 ? degree : Math.min(degree, undefinedOrder - 1)
+}
+
+const formatCoefficient = (value: number) => Number(value.toPrecision(6)).toString()
+
+// Readable form of P_degree such as "1 + 0.5 (x - 2) - 0.125 (x - 2)^2"
+export function formatTaylorPolynomial(coefficients: number[], center: number, degree: number): string {
+  const base = center === 0 ? "x" : `(x ${center > 0 ? "-" : "+"} ${formatCoefficient(Math.abs(center))})`
+  let result = ""
+
+  coefficients.slice(0, degree + 1).forEach((coefficient, k) => {
+    if (coefficient === 0 || Math.abs(coefficient) < 1e-12) return
+
+    const magnitude = formatCoefficient(Math.abs(coefficient))
+    const power = k === 0 ? "" : k === 1 ? base : `${base}^${k}`
+    const term = k === 0 ? magnitude : magnitude === "1" ? power : `${magnitude} ${power}`
+    const sign = coefficient < 0 ? "-" : "+"
+
+    result += result ? ` ${sign} ${term}` : `${sign === "-" ? "-" : ""}${term}`
+  })
+
+  return result || "0"
+}
+
+export interface TaylorSamples {
+  coefficients: number[]
+  // partialSums[k] and remainders[k] are the sampled curves of P_k and |f - P_k|
+  partialSums: Point[][][]
+  remainders: Point[][][]
+}
+
+// Sample every partial sum of the expansion with the given coefficients, and how far each is from f, over range.
+// The coefficients are worked out separately, since the view can change far more often than f or the center.
+export function taylorSamples(
+  expr: string,
+  center: number,
+  coefficients: number[],
+  range: Range,
+  options?: SampleOptions,
+): TaylorSamples {
+  const f = compileFunction(expr)
+  const partialSums: Point[][][] = []
+  const remainders: Point[][][] = []
+
+  for (let k = 0; k < coefficients.length; k++) {
+    const polynomial = taylorPolynomial(coefficients, center, k)
+    partialSums.push(sampleCurve(polynomial, range, options))
+    remainders.push(sampleCurve((x) => Math.abs(f(x) - polynomial(x)), range, options))
+  }
+
+  return { coefficients, partialSums, remainders }
+}
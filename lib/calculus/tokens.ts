@@ -0,0 +1,66 @@
+const IDENTIFIER_CHAR = /[A-Za-z0-9_$]/
+
+// [start, end) of the first whole-word occurrence of token in source
+export function findToken(source: string, token: string): [number, number] | undefined {
+  const isWord = IDENTIFIER_CHAR.test(token[0] ?? "")
+  let from = 0
+
+  while (token) {
+    const start = source.indexOf(token, from)
+    if (start === -1) return undefined
+
+    const end = start + token.length
+    if (!isWord || (!IDENTIFIER_CHAR.test(source[start - 1] ?? "") && !IDENTIFIER_CHAR.test(source[end] ?? ""))) {
+      return [start, end]
+    }
+    from = start + 1
+  }
+  return undefined
+}
+
+// [start, end) of occurrence n (counting from 0) of a symbol such as / in source
+export function findSymbol(source: string, symbol: string, n = 0): [number, number] | undefined {
+  let start = -1
+  for (let i = 0; i <= n; i++) {
+    start = source.indexOf(symbol, start + 1)
+    if (start === -1) return undefined
+  }
+  return [start, start + symbol.length]
+}
+
+// [start, end) of the first number literal in source whose value is value
+export function findNumber(source: string, value: number): [number, number] | undefined {
+  for (const match of source.matchAll(/(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/gi)) {
+    if (Number(match[0]) === value) {
+      return [match.index ?? 0, (match.index ?? 0) + match[0].length]
+    }
+  }
+  return undefined
+}
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// The candidate closest to name, if it is close enough to be a likely typo
+export function closestMatch(name: string, candidates: Iterable<string>): string | undefined {
+  let best: string | undefined
+  let bestDistance = Math.max(1, Math.floor(name.length / 3)) + 1
+
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase())
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+  return best
+}
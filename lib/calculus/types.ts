@@ -0,0 +1,8 @@
+// A sampled point of a curve in math coordinates
+export interface Point {
+  x: number
+  y: number
+}
+
+// A closed interval [min, max] on one axis
+export type Range = [number, number]
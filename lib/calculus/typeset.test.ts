@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+import { examples } from "@/lib/examples"
+import { RULE_FORMULAS } from "./steps"
+import { typeset, type MathMLElement } from "./typeset"
+
+// Compact bracketed form of a tree, e.g. mfrac(mi(x) mn(2))
+const outline = (node: MathMLElement | string): string =>
+  typeof node === "string"
+    ? node
+    : node.tag === "mrow" || node.tag === "math"
+      ? node.children.map(outline).join(" ")
+      : `${node.tag}(${node.children.map(outline).join(" ")})`
+
+const shape = (expr: string) => {
+  const tree = typeset(expr)
+  return tree && outline(tree).replace(/⁡/g, "").replace(/\s+/g, " ").trim()
+}
+
+describe("typeset", () => {
+  it("sets divisions as fractions without their parentheses", () => {
+    expect(shape("(x + 1) / x^2")).toBe("mfrac(mi(x) mo(+) mn(1) msup(mi(x) mn(2)))")
+  })
+
+  it("sets roots as radicals", () => {
+    expect(shape("sqrt(x)")).toBe("msqrt(mi(x))")
+    expect(shape("cbrt(x)")).toBe("mroot(mi(x) mn(3))")
+  })
+
+  it("puts whole powers of trig functions on the name", () => {
+    expect(shape("sec(x)^2")).toBe("msup(mi(sec) mn(2)) mo() mo(() mi(x) mo())")
+    expect(shape("sinh(x)^2")).toBe("msup(mi(sinh) mn(2)) mo() mo(() mi(x) mo())")
+  })
+
+  it("keeps the power of an inverse trig function outside its parentheses", () => {
+    expect(shape("asin(x)^2")).toBe("msup(mi(asin) mo() mo(() mi(x) mo()) mn(2))")
+  })
+
+  it("writes natural and other logarithms", () => {
+    expect(shape("log(x)")).toBe("mi(ln) mo() mo(() mi(x) mo())")
+    expect(shape("log(x, 2)")).toBe("msub(mi(log) mn(2)) mo() mo(() mi(x) mo())")
+  })
+
+  it("juxtaposes a numeric coefficient but keeps the dot between numbers", () => {
+    expect(shape("2 * x")).toBe("mn(2) mi(x)")
+    expect(shape("2 * 3")).toBe("mn(2) mo(·) mn(3)")
+  })
+
+  it("sets equations with primes, subscripts and constants", () => {
+    expect(shape("f'(x) = 2 pi")).toBe("mi(f) mo(′) mo(() mi(x) mo()) mo(=) mn(2) mi(π)")
+    expect(shape("P_3(x) = 1")).toBe("msub(mi(P) mn(3)) mo() mo(() mi(x) mo()) mo(=) mn(1)")
+  })
+
+  it("keeps numbers as they were formatted", () => {
+    expect(shape("P_3(x) = 1.00")).toBe("msub(mi(P) mn(3)) mo() mo(() mi(x) mo()) mo(=) mn(1.00)")
+    expect(shape("log10(x) + 2.50 x")).toBe("msub(mi(log) mn(10)) mo() mo(() mi(x) mo()) mo(+) mn(2.50) mi(x)")
+    expect(shape("1.5e-7")).toBe("mn(1.5) mo(×) msup(mn(10) mn(−7))")
+  })
+
+  it("uses a real minus sign", () => {
+    expect(shape("-x - 1")).toBe("mo(−) mi(x) mo(−) mn(1)")
+  })
+
+  it("typesets the math in every rule formula and explanation", () => {
+    const texts = [
+      ...Object.values(RULE_FORMULAS),
+      ...Object.values(examples).flatMap((list) => list.map((ex) => ex.explanation)),
+    ]
+    const formulas = texts.flatMap((text) => [...text.matchAll(/\$([^$]+)\$/g)].map((match) => match[1]))
+    expect(formulas.length).toBeGreaterThan(20)
+    formulas.forEach((formula) => expect(typeset(formula), formula).not.toBeNull())
+  })
+
+  it("returns null when the input does not parse", () => {
+    expect(typeset("1 +")).toBeNull()
+  })
+})
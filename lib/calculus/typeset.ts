@@ -0,0 +1,180 @@
+import {
+  isConstantNode,
+  isFunctionNode,
+  isOperatorNode,
+  isParenthesisNode,
+  isSymbolNode,
+  type MathNode,
+  type OperatorNode,
+  type OperatorNodeFn,
+  type OperatorNodeOp,
+} from "mathjs"
+import { parseForDisplay } from "./sandbox"
+
+export type MathMLTag = "math" | "mrow" | "mi" | "mn" | "mo" | "mtext" | "mfrac" | "msqrt" | "mroot" | "msup" | "msub"
+
+// Presentation MathML as plain data, so the tree can be built and checked without a DOM
+export interface MathMLElement {
+  tag: MathMLTag
+  children: (MathMLElement | string)[]
+}
+
+const element = (tag: MathMLTag, children: (MathMLElement | string)[]): MathMLElement => ({ tag, children })
+
+const mo = (operator: string) => element("mo", [operator])
+const mi = (name: string) => element("mi", [name])
+const mn = (digits: string) => element("mn", [digits])
+const row = (...children: MathMLElement[]) => element("mrow", children)
+const fenced = (...children: MathMLElement[]) => row(mo("("), ...children, mo(")"))
+
+// Invisible operator between a function name and its argument list, for screen readers
+const FUNCTION_APPLICATION = "⁡"
+
+const SYMBOLS: Record<string, string> = { pi: "π", PI: "π", tau: "τ", phi: "φ", E: "e", Infinity: "∞" }
+
+// Functions written with the exponent on the name when raised to a whole power, as in sin²(x). Inverses
+// keep it outside, as in asin(x)², since a power on their name reads like the inverse notation sin⁻¹.
+const POWER_ON_NAME = /^(sin|cos|tan|sec|csc|cot)h?$/
+
+// Parentheses that the layout already implies, such as around a numerator or an exponent
+const unwrap = (node: MathNode): MathNode => (isParenthesisNode(node) ? unwrap(node.content) : node)
+
+// Names such as P_3 get their part after the underscore as a subscript
+const identifier = (name: string) => {
+  const [base, subscript] = name.split("_")
+  const symbol = mi(SYMBOLS[base] ?? base)
+  return subscript ? element("msub", [symbol, /^\d+$/.test(subscript) ? mn(subscript) : mi(subscript)]) : symbol
+}
+
+// Number literals as written, so that 1.00 keeps the precision it was formatted to; mathjs only keeps values
+const literals = new WeakMap<MathNode, string>()
+
+// Digits not part of a name such as log10 or P_3
+const NUMBER_LITERAL = /(?<![\w.])(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/gi
+
+// Pair the numbers in the tree with the literals in source, which come in the same order
+const recordLiterals = (node: MathNode, source: string) => {
+  const matches = [...source.matchAll(NUMBER_LITERAL)]
+  let next = 0
+  node.traverse((child) => {
+    if (!isConstantNode(child) || typeof child.value !== "number") return
+    const index = matches.findIndex((match, i) => i >= next && Number(match[0]) === child.value)
+    if (index === -1) return
+    literals.set(child, matches[index][0])
+    next = index + 1
+  })
+}
+
+// 1e-7 is set as 1 × 10⁻⁷
+const number = (text: string) => {
+  const [mantissa, exponent] = text.toLowerCase().split("e")
+  if (exponent === undefined) return mn(mantissa)
+  return row(mn(mantissa), mo("×"), element("msup", [mn("10"), mn(exponent.replace("-", "−").replace("+", ""))]))
+}
+
+const apply = (name: MathMLElement, args: MathNode[]) =>
+  row(
+    name,
+    mo(FUNCTION_APPLICATION),
+    fenced(...args.flatMap((arg, i) => (i === 0 ? [toMathML(unwrap(arg))] : [mo(","), toMathML(unwrap(arg))]))),
+  )
+
+const typesetFunction = (name: string, args: MathNode[]): MathMLElement => {
+  const [arg, second] = args
+  switch (name) {
+    case "sqrt":
+      return element("msqrt", [toMathML(unwrap(arg))])
+    case "cbrt":
+      return element("mroot", [toMathML(unwrap(arg)), mn("3")])
+    case "nthRoot":
+      return second
+        ? element("mroot", [toMathML(unwrap(arg)), toMathML(unwrap(second))])
+        : element("msqrt", [toMathML(unwrap(arg))])
+    case "abs":
+      return row(mo("|"), toMathML(unwrap(arg)), mo("|"))
+    case "exp":
+      return element("msup", [mi("e"), toMathML(unwrap(arg))])
+    case "factorial":
+      return row(toMathML(arg), mo("!"))
+    // mathjs' log(u) is the natural logarithm, log(u, b) the one to base b
+    case "log":
+      return second ? apply(element("msub", [mi("log"), toMathML(unwrap(second))]), [arg]) : apply(mi("ln"), [arg])
+    case "log10":
+      return apply(element("msub", [mi("log"), mn("10")]), [arg])
+    case "log2":
+      return apply(element("msub", [mi("log"), mn("2")]), [arg])
+    default:
+      return apply(identifier(name), args)
+  }
+}
+
+// 2 * x is set as 2x, but 2 * 3 keeps its dot
+const leadsWithNumber = (node: MathNode): boolean =>
+  isConstantNode(node) ||
+  (isOperatorNode(node) && (node.fn === "unaryMinus" || (node.args.length > 1 && leadsWithNumber(node.args[0]))))
+
+const typesetOperator = (node: OperatorNode<OperatorNodeOp, OperatorNodeFn>): MathMLElement => {
+  const [a, b] = node.args
+  // ctranspose is missing from the typings of the operators
+  switch (node.fn as string) {
+    case "add":
+      return row(toMathML(a), mo("+"), toMathML(b))
+    case "subtract":
+      return row(toMathML(a), mo("−"), toMathML(b))
+    case "multiply":
+      return node.implicit || (isConstantNode(a) && !leadsWithNumber(b))
+        ? row(toMathML(a), toMathML(b))
+        : row(toMathML(a), mo("·"), toMathML(b))
+    case "divide":
+      return element("mfrac", [toMathML(unwrap(a)), toMathML(unwrap(b))])
+    case "pow":
+      // sin(x)^2 as sin²(x)
+      if (isFunctionNode(a) && POWER_ON_NAME.test(a.fn.name) && isConstantNode(b) && Number.isInteger(b.value)) {
+        return row(
+          element("msup", [mi(a.fn.name), mn(String(b.value))]),
+          mo(FUNCTION_APPLICATION),
+          fenced(...a.args.map((arg) => toMathML(unwrap(arg)))),
+        )
+      }
+      return element("msup", [toMathML(a), toMathML(unwrap(b))])
+    case "unaryMinus":
+      return row(mo("−"), toMathML(a))
+    case "unaryPlus":
+      return row(mo("+"), toMathML(a))
+    case "factorial":
+      return row(toMathML(a), mo("!"))
+    // The transpose operator stands in for the prime in formulas such as g'(x)
+    case "ctranspose":
+      return row(toMathML(a), mo("′"))
+    default:
+      return row(...node.args.flatMap((arg, i) => (i === 0 ? [toMathML(arg)] : [mo(node.op), toMathML(arg)])))
+  }
+}
+
+// Parentheses written in the source are kept, except where the layout already groups their content
+const toMathML = (node: MathNode): MathMLElement => {
+  if (isParenthesisNode(node)) return fenced(toMathML(node.content))
+  if (isConstantNode(node))
+    return typeof node.value === "number"
+      ? number(literals.get(node) ?? String(node.value))
+      : element("mtext", [String(node.value)])
+  if (isSymbolNode(node)) return identifier(node.name)
+  if (isFunctionNode(node) && isSymbolNode(node.fn)) return typesetFunction(node.fn.name, node.args)
+  if (isOperatorNode(node)) return typesetOperator(node)
+  return element("mtext", [node.toString()])
+}
+
+// Typeset an expression, or an equation of several such as f'(x) = 2 * x, built from the mathjs parse
+// tree with fractions, radicals, superscripts and upright function names. null when it does not parse.
+export function typeset(expr: string): MathMLElement | null {
+  try {
+    const sides = expr.split("=").map((side) => {
+      const node = parseForDisplay(side)
+      recordLiterals(node, side)
+      return toMathML(node)
+    })
+    return element("math", [row(...sides.flatMap((side, i) => (i === 0 ? [side] : [mo("="), side])))])
+  } catch (e) {
+    return null
+  }
+}
@@ -0,0 +1,32 @@
+import { ExpressionError, parseExpression, type ExpressionErrorKind } from "./sandbox"
+import type { Point, Range } from "./types"
+
+// Something wrong with the user's expression, either found while parsing it or after plotting it
+export interface ExpressionIssue {
+  kind: ExpressionErrorKind | "domain"
+  message: string
+  // [start, end) of the characters to highlight in the input
+  span?: [number, number]
+}
+
+// Static checks only: syntax, unknown names and the sandbox limits. Returns null when expr is usable.
+export function validateExpression(expr: string): ExpressionIssue | null {
+  if (!expr.trim()) {
+    return { kind: "syntax", message: "Enter a function of x such as x^2 + 1" }
+  }
+  try {
+    parseExpression(expr)
+    return null
+  } catch (err) {
+    if (err instanceof ExpressionError) {
+      return { kind: err.kind, message: err.message, span: err.span }
+    }
+    return { kind: "syntax", message: err instanceof Error ? err.message : String(err) }
+  }
+}
+
+// Domain problems only show up once the curve has been sampled, e.g. sqrt(-1 - x^2) has no real values
+export function checkDomain(segments: Point[][], [min, max]: Range): ExpressionIssue | null {
+  if (segments.some((segment) => segment.length > 0)) return null
+  return { kind: "domain", message: `f(x) is undefined everywhere on [${min}, ${max}]` }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { isVerified, verifyDerivative } from "./verify"
+
+describe("verifyDerivative", () => {
+  it("accepts a correct derivative written differently from mathjs", () => {
+    expect(isVerified(verifyDerivative("tan(x)", "1 / cos(x)^2", { range: [-1.5, 1.5] }))).toBe(true)
+  })
+
+  it("skips points where f' is undefined", () => {
+    expect(isVerified(verifyDerivative("sqrt(x)", "1 / (2 * sqrt(x))"))).toBe(true)
+  })
+
+  it("reports where a wrong derivative disagrees", () => {
+    const check = verifyDerivative("x^2", "x", { samples: 8 })
+    expect(isVerified(check)).toBe(false)
+    expect(check.mismatches).toHaveLength(8)
+    expect(check.mismatches[0]).toMatchObject({ expected: 2 * check.mismatches[0].x, actual: check.mismatches[0].x })
+  })
+
+  it("reports an error when f cannot be parsed", () => {
+    const check = verifyDerivative("foo(x)", "1")
+    expect(check.error).toBeDefined()
+    expect(isVerified(check)).toBe(false)
+  })
+})
@@ -0,0 +1,63 @@
+import { safeEval } from "./evaluate"
+import { derivative, parseExpression } from "./sandbox"
+import type { Range } from "./types"
+
+export interface DerivativeMismatch {
+  x: number
+  expected: number
+  actual: number
+}
+
+export interface DerivativeCheck {
+  f: string
+  df: string
+  mismatches: DerivativeMismatch[]
+  // Set when mathjs cannot differentiate f at all
+  error?: string
+}
+
+export interface VerifyOptions {
+  range?: Range
+  samples?: number
+  tolerance?: number
+}
+
+// Compare a hand-written derivative df against mathjs' derivative of f at evenly spaced sample points.
+// Samples sit at cell midpoints so that singularities at round numbers such as x = 0 are skipped.
+export function verifyDerivative(
+  f: string,
+  df: string,
+  { range = [-5, 5], samples = 64, tolerance = 1e-6 }: VerifyOptions = {},
+): DerivativeCheck {
+  let reference
+  try {
+    reference = derivative(parseExpression(f), "x").compile()
+  } catch (err) {
+    return { f, df, mismatches: [], error: err instanceof Error ? err.message : String(err) }
+  }
+
+  const mismatches: DerivativeMismatch[] = []
+  const step = (range[1] - range[0]) / samples
+
+  for (let i = 0; i < samples; i++) {
+    const x = range[0] + (i + 0.5) * step
+    let expected: number
+    try {
+      const value = reference.evaluate({ x })
+      expected = typeof value === "number" ? value : Number.NaN
+    } catch (err) {
+      continue
+    }
+    // Only points where f' exists can disagree
+    if (!isFinite(expected)) continue
+
+    const actual = safeEval(df, x)
+    if (!(Math.abs(actual - expected) <= tolerance * Math.max(1, Math.abs(expected)))) {
+      mismatches.push({ x, expected, actual })
+    }
+  }
+
+  return { f, df, mismatches }
+}
+
+export const isVerified = (check: DerivativeCheck) => !check.error && check.mismatches.length === 0
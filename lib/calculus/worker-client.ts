@@ -0,0 +1,133 @@
+import { runJob, type EvaluationJob, type JobResult } from "./jobs"
+
+export interface RunOptions {
+  signal?: AbortSignal
+  // Budget for the job once the worker starts on it
+  timeoutMs?: number
+}
+
+interface PendingJob {
+  id: number
+  job: EvaluationJob
+  timeoutMs: number
+  // Set once the caller has its answer, after which a late result from the worker is dropped
+  settled: boolean
+  timer?: ReturnType<typeof setTimeout>
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  cleanup: () => void
+}
+
+// Jobs nobody is waiting on interactively, which curves for the current view overtake in the queue
+const BACKGROUND_KINDS: EvaluationJob["kind"][] = ["summary", "critical", "taylor", "antiderivative", "steps"]
+
+let worker: Worker | null = null
+let running: PendingJob | null = null
+const queue: PendingJob[] = []
+let nextId = 0
+
+const settle = (job: PendingJob, outcome: { result: unknown } | { error: Error }) => {
+  if (job.settled) return
+  job.settled = true
+  job.cleanup()
+  if ("error" in outcome) job.reject(outcome.error)
+  else job.resolve(outcome.result)
+}
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL("./evaluation.worker.ts", import.meta.url))
+    worker.onmessage = (event: MessageEvent<{ id: number; result?: unknown; error?: string }>) => {
+      const { id, result, error } = event.data
+      if (!running || running.id !== id) return
+
+      const job = running
+      running = null
+      clearTimeout(job.timer)
+      settle(job, error !== undefined ? { error: new Error(error) } : { result })
+      pump()
+    }
+  }
+  return worker
+}
+
+// The worker runs one job at a time synchronously, so the only way to stop a job it has started is to
+// replace the worker, losing its mathjs instance and compile cache
+const restartWorker = () => {
+  worker?.terminate()
+  worker = null
+  running = null
+}
+
+const timeOut = (job: PendingJob) => {
+  restartWorker()
+  settle(job, { error: new Error(`Evaluation took longer than ${job.timeoutMs / 1000}s and was stopped`) })
+  pump()
+}
+
+// A queued job is dropped; one already running is stopped, so the jobs that replace it need not wait
+const cancel = (job: PendingJob) => {
+  if (running === job) {
+    clearTimeout(job.timer)
+    restartWorker()
+  } else {
+    const index = queue.indexOf(job)
+    if (index !== -1) queue.splice(index, 1)
+  }
+  settle(job, { error: abortError() })
+  pump()
+}
+
+const enqueue = (job: PendingJob) => {
+  const background = (pending: PendingJob) => BACKGROUND_KINDS.includes(pending.job.kind)
+  const index = background(job) ? -1 : queue.findIndex(background)
+  if (index === -1) queue.push(job)
+  else queue.splice(index, 0, job)
+}
+
+const pump = () => {
+  if (running || queue.length === 0) return
+
+  const job = queue.shift() as PendingJob
+  running = job
+  job.timer = setTimeout(() => timeOut(job), job.timeoutMs)
+  getWorker().postMessage({ id: job.id, job: job.job })
+}
+
+const abortError = () => new DOMException("Evaluation was cancelled", "AbortError")
+
+// Run a job off the main thread. Rejects with an AbortError when signal fires and with an Error when
+// the job exceeds its time budget; falls back to running inline where Web Workers are unavailable.
+export function runInWorker<J extends EvaluationJob>(
+  job: J,
+  { signal, timeoutMs = 3000 }: RunOptions = {},
+): Promise<JobResult<J>> {
+  if (signal?.aborted) return Promise.reject(abortError())
+
+  if (typeof Worker === "undefined") {
+    try {
+      return Promise.resolve(runJob(job))
+    } catch (err) {
+      return Promise.reject(err)
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const pending: PendingJob = {
+      id: nextId++,
+      job,
+      timeoutMs,
+      settled: false,
+      resolve: resolve as (result: unknown) => void,
+      reject,
+      cleanup: () => signal?.removeEventListener("abort", onAbort),
+    }
+    const onAbort = () => cancel(pending)
+    signal?.addEventListener("abort", onAbort)
+
+    enqueue(pending)
+    pump()
+  })
+}
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === "AbortError"
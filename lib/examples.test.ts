@@ -0,0 +1,11 @@
+import { describe, expect, it } from "vitest"
+import { isVerified } from "@/lib/calculus"
+import { verifyDerivativeTables } from "@/lib/examples"
+
+describe("derivative tables", () => {
+  it.each(verifyDerivativeTables())("d/dx $f = $df", (check) => {
+    expect(check.error).toBeUndefined()
+    expect(check.mismatches).toEqual([])
+    expect(isVerified(check)).toBe(true)
+  })
+})
@@ -0,0 +1,126 @@
+import { verifyDerivative, type DerivativeCheck, type Range } from "@/lib/calculus"
+
+export type Rule = "trig" | "product" | "quotient" | "chain"
+
+export interface DerivativeExample {
+  name: string
+  f: string
+  df: string
+  // Prose with the math between $ signs, in expression syntax, so it can be typeset
+  explanation: string
+  defaultDomain?: Range
+}
+
+export const examples: Record<Rule, DerivativeExample[]> = {
+  trig: [
+    {
+      name: "Sine",
+      f: "sin(x)",
+      df: "cos(x)",
+      explanation: "The derivative of $sin(x)$ is $cos(x)$",
+      defaultDomain: [-2 * Math.PI, 2 * Math.PI],
+    },
+    {
+      name: "Cosine",
+      f: "cos(x)",
+      df: "-sin(x)",
+      explanation: "The derivative of $cos(x)$ is $-sin(x)$",
+      defaultDomain: [-2 * Math.PI, 2 * Math.PI],
+    },
+    {
+      name: "Tangent",
+      f: "tan(x)",
+      df: "sec(x)^2",
+      explanation: "The derivative of $tan(x)$ is $sec(x)^2$ or $1 / cos(x)^2$",
+      defaultDomain: [-1.5, 1.5],
+    },
+  ],
+  product: [
+    {
+      name: "Product Rule",
+      f: "x * sin(x)",
+      df: "x * cos(x) + sin(x)",
+      explanation: "If $f(x) = g(x) * h(x)$, then $f'(x) = g'(x) * h(x) + g(x) * h'(x)$",
+    },
+    {
+      name: "Polynomial × Trig",
+      f: "x^2 * cos(x)",
+      df: "2 * x * cos(x) - x^2 * sin(x)",
+      explanation: "Using the product rule: $(x^2)' * cos(x) + x^2 * (cos(x))'$",
+    },
+  ],
+  quotient: [
+    {
+      name: "Quotient Rule",
+      f: "sin(x) / x",
+      df: "(x * cos(x) - sin(x)) / x^2",
+      explanation: "If $f(x) = g(x) / h(x)$, then $f'(x) = (g'(x) * h(x) - g(x) * h'(x)) / h(x)^2$",
+    },
+    {
+      name: "Rational Function",
+      f: "x / (x^2 + 1)",
+      df: "(x^2 + 1 - x * 2 * x) / (x^2 + 1)^2",
+      explanation: "Using the quotient rule: $((x^2 + 1) * 1 - x * 2x) / (x^2 + 1)^2$",
+    },
+  ],
+  chain: [
+    {
+      name: "Chain Rule",
+      f: "sin(x^2)",
+      df: "2 * x * cos(x^2)",
+      explanation: "If $f(x) = g(h(x))$, then $f'(x) = g'(h(x)) * h'(x)$",
+    },
+    {
+      name: "Nested Functions",
+      f: "sqrt(1 + x^2)",
+      df: "x / sqrt(1 + x^2)",
+      explanation: "Using the chain rule: $(1/2)(1 + x^2)^(-1/2) * 2x$",
+    },
+  ],
+}
+
+export type Tab = Rule | "custom"
+
+export interface PredefinedFunction {
+  name: string
+  derivative: string
+}
+
+// Predefined functions for each rule
+export const predefinedFunctions: Record<Tab, PredefinedFunction[]> = {
+  trig: [
+    { name: "sin(x)", derivative: "cos(x)" },
+    { name: "cos(x)", derivative: "-sin(x)" },
+    { name: "tan(x)", derivative: "sec(x)^2" },
+  ],
+  product: [
+    { name: "x * sin(x)", derivative: "sin(x) + x * cos(x)" },
+    { name: "x^2 * cos(x)", derivative: "2 * x * cos(x) - x^2 * sin(x)" },
+    { name: "e^x * x", derivative: "e^x * (x + 1)" },
+  ],
+  quotient: [
+    { name: "sin(x) / x", derivative: "(x * cos(x) - sin(x)) / x^2" },
+    { name: "x / cos(x)", derivative: "(cos(x) + x * sin(x)) / cos(x)^2" },
+    { name: "(x^2 + 1) / x", derivative: "(x^2 - 1) / x^2" },
+  ],
+  chain: [
+    { name: "sin(x^2)", derivative: "2 * x * cos(x^2)" },
+    { name: "e^sin(x)", derivative: "cos(x) * e^sin(x)" },
+    { name: "ln(cos(x))", derivative: "-tan(x)" },
+  ],
+  custom: [{ name: "sin(x)", derivative: "cos(x)" }],
+}
+
+// Check every hand-written derivative in both tables against mathjs
+export function verifyDerivativeTables(): DerivativeCheck[] {
+  const entries = [
+    ...Object.values(predefinedFunctions)
+      .flat()
+      .map(({ name, derivative }) => ({ f: name, df: derivative, range: undefined })),
+    ...Object.values(examples)
+      .flat()
+      .map(({ f, df, defaultDomain }) => ({ f, df, range: defaultDomain })),
+  ]
+
+  return entries.map(({ f, df, range }) => verifyDerivative(f, df, { range }))
+}
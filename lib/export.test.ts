@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+import { curveTable, tableToCsv, tableToJson } from "./export"
+
+describe("curveTable", () => {
+  it("pairs each sample with its slope and leaves undefined values empty", () => {
+    const table = curveTable(
+      [
+        { x: 0, y: 1 },
+        { x: 1, y: Number.NaN },
+      ],
+      [2, Number.POSITIVE_INFINITY],
+    )
+    expect(table.columns).toEqual(["x", "f(x)", "f′(x)"])
+    expect(table.rows).toEqual([
+      [0, 1, 2],
+      [1, null, null],
+    ])
+  })
+
+  it("adds the tangent at the probed point as a column", () => {
+    const table = curveTable([{ x: 3, y: 9 }], [6], { x: 1, y: 1, slope: 2 })
+    expect(table.columns[3]).toBe("tangent at x = 1")
+    expect(table.rows[0][3]).toBe(5)
+  })
+})
+
+describe("tableToCsv", () => {
+  it("quotes headers holding commas, quotes or newlines and leaves nulls empty", () => {
+    const csv = tableToCsv({ columns: ["x", 'f(x) = "a, b"', "line\nbreak"], rows: [[1, null, 2.5]] })
+    expect(csv).toBe('x,"f(x) = ""a, b""","line\nbreak"\n1,,2.5')
+  })
+})
+
+describe("tableToJson", () => {
+  it("keys each row by column after the details", () => {
+    const json = JSON.parse(tableToJson({ columns: ["x", "f(x)"], rows: [[0, null]] }, { function: "1/x" }))
+    expect(json).toEqual({ function: "1/x", points: [{ x: 0, "f(x)": null }] })
+  })
+})
@@ -0,0 +1,194 @@
+// Turning the graphs into files: standalone SVG, PNG and tables of the sampled points
+
+import type { Point } from "@/lib/calculus"
+import { formatNumber } from "@/lib/share"
+
+export interface LegendEntry {
+  label: string
+  // Any CSS colour, including var() references that resolve where the graph is drawn
+  color: string
+  dasharray?: string
+}
+
+// Sampled points as a table with x in the first column; null marks a value that is undefined there
+export interface DataTable {
+  columns: string[]
+  rows: (number | null)[][]
+}
+
+// Presentation properties that classes and CSS variables can set, copied onto each element of an export
+const INLINED_STYLES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-dasharray",
+  "stroke-opacity",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+  "visibility",
+]
+
+const SVG_NS = "http://www.w3.org/2000/svg"
+
+// The colour an element would get for color, with var() references resolved in its place in the page
+const resolveColor = (color: string, context: Element) => {
+  const probe = document.createElementNS(SVG_NS, "g")
+  probe.style.color = color
+  context.appendChild(probe)
+  const resolved = getComputedStyle(probe).color
+  probe.remove()
+  return resolved || color
+}
+
+// The first opaque background behind an element, so the export looks as it does on screen
+const backgroundOf = (element: Element) => {
+  for (let node: Element | null = element; node; node = node.parentElement) {
+    const color = getComputedStyle(node).backgroundColor
+    if (color && color !== "transparent" && !/rgba\(.*,\s*0\)$/.test(color)) return color
+  }
+  return "white"
+}
+
+const createSvgElement = (name: string, attributes: Record<string, string | number>) => {
+  const element = document.createElementNS(SVG_NS, name)
+  for (const [key, value] of Object.entries(attributes)) element.setAttribute(key, String(value))
+  return element
+}
+
+// A copy of svg that renders the same outside the page: computed styles inlined, classes and event
+// handlers dropped, an opaque background and, when given, a legend in the top right corner
+export function standaloneSvg(svg: SVGSVGElement, legend: LegendEntry[] = []) {
+  const { width, height } = svg.getBoundingClientRect()
+  const clone = svg.cloneNode(true) as SVGSVGElement
+
+  const originals = [svg, ...svg.querySelectorAll("*")]
+  const copies = [clone, ...clone.querySelectorAll("*")]
+  originals.forEach((original, i) => {
+    const copy = copies[i]
+    const computed = getComputedStyle(original)
+    const style = INLINED_STYLES.map((property) => `${property}:${computed.getPropertyValue(property)}`).join(";")
+    copy.setAttribute("style", style)
+    copy.removeAttribute("class")
+  })
+  // HTML overlays such as the typeset info box lose their styles outside the page and taint PNG exports,
+  // so they go, together with anything drawn only to back them
+  clone.querySelectorAll('foreignObject, [data-export="omit"]').forEach((overlay) => overlay.remove())
+
+  clone.setAttribute("xmlns", SVG_NS)
+  clone.setAttribute("width", String(width))
+  clone.setAttribute("height", String(height))
+  clone.setAttribute("viewBox", `0 0 ${width} ${height}`)
+  clone.insertBefore(createSvgElement("rect", { width, height, fill: backgroundOf(svg) }), clone.firstChild)
+
+  if (legend.length > 0) {
+    const fontFamily = getComputedStyle(svg).fontFamily
+    const rowHeight = 20
+    const boxWidth = 60 + 7 * Math.max(...legend.map(({ label }) => label.length))
+    const group = createSvgElement("g", {
+      transform: `translate(${width - boxWidth - 10}, 10)`,
+      "font-family": fontFamily,
+      "font-size": 12,
+    })
+    group.appendChild(
+      createSvgElement("rect", {
+        width: boxWidth,
+        height: legend.length * rowHeight + 10,
+        fill: resolveColor("hsl(var(--card))", svg),
+        "fill-opacity": 0.9,
+        stroke: resolveColor("hsl(var(--border))", svg),
+        rx: 4,
+      }),
+    )
+    legend.forEach(({ label, color, dasharray }, i) => {
+      const y = 15 + i * rowHeight
+      const line = createSvgElement("line", {
+        x1: 10,
+        y1: y,
+        x2: 40,
+        y2: y,
+        stroke: resolveColor(color, svg),
+        "stroke-width": 2,
+      })
+      if (dasharray) line.setAttribute("stroke-dasharray", dasharray)
+      group.appendChild(line)
+      const text = createSvgElement("text", { x: 50, y: y + 4, fill: resolveColor("hsl(var(--card-foreground))", svg) })
+      text.textContent = label
+      group.appendChild(text)
+    })
+    clone.appendChild(group)
+  }
+
+  return { markup: new XMLSerializer().serializeToString(clone), width, height }
+}
+
+// Draw standalone SVG markup onto a canvas scale times its size
+export function rasterize(markup: string, width: number, height: number, scale: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml;charset=utf-8" }))
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.round(width * scale)
+      canvas.height = Math.round(height * scale)
+      const context = canvas.getContext("2d")
+      if (!context) {
+        reject(new Error("Canvas is not available"))
+        return
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height)
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the PNG"))), "image/png")
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error("Could not render the graph"))
+    }
+    image.src = url
+  })
+}
+
+const finite = (value: number) => (isFinite(value) ? value : null)
+
+// f and f′ at each sample of f, with the tangent at tangent.x alongside when one is given
+export function curveTable(
+  samples: Point[],
+  slopes: number[],
+  tangent?: { x: number; y: number; slope: number },
+): DataTable {
+  return {
+    columns: ["x", "f(x)", "f′(x)", ...(tangent ? [`tangent at x = ${formatNumber(tangent.x)}`] : [])],
+    rows: samples.map(({ x, y }, i) => [
+      x,
+      finite(y),
+      finite(slopes[i]),
+      ...(tangent ? [finite(tangent.y + tangent.slope * (x - tangent.x))] : []),
+    ]),
+  }
+}
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+export const tableToCsv = ({ columns, rows }: DataTable) =>
+  [columns.map(csvField).join(","), ...rows.map((row) => row.map((value) => value ?? "").join(","))].join("\n")
+
+// One object per row keyed by column, after any details about the graph such as the function
+export const tableToJson = ({ columns, rows }: DataTable, details: Record<string, unknown> = {}) =>
+  JSON.stringify(
+    { ...details, points: rows.map((row) => Object.fromEntries(columns.map((column, i) => [column, row[i]]))) },
+    null,
+    2,
+  )
+
+export function download(content: Blob | string, filename: string, type = "text/plain") {
+  const url = URL.createObjectURL(typeof content === "string" ? new Blob([content], { type }) : content)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
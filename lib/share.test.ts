@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import {
+  formatNumber,
+  formatNumbers,
+  readChoice,
+  readFlag,
+  readJson,
+  readNumber,
+  readNumbers,
+  readRange,
+} from "./share"
+
+const params = (query: string) => new URLSearchParams(query)
+
+describe("share link readers", () => {
+  it("read well-formed values", () => {
+    const query = params("n=2.5&xs=-1,2,3&x=-5,5&aspect=1&mode=secant&cmp=%5B1%5D")
+    expect(readNumber(query, "n")).toBe(2.5)
+    expect(readNumbers(query, "xs", 3)).toEqual([-1, 2, 3])
+    expect(readRange(query, "x")).toEqual([-5, 5])
+    expect(readFlag(query, "aspect")).toBe(true)
+    expect(readChoice(query, "mode", ["derivative", "secant"] as const)).toBe("secant")
+    expect(readJson(query, "cmp")).toEqual([1])
+  })
+
+  it("return undefined for missing keys", () => {
+    const query = params("")
+    expect(readNumber(query, "n")).toBeUndefined()
+    expect(readNumbers(query, "xs", 2)).toBeUndefined()
+    expect(readRange(query, "x")).toBeUndefined()
+    expect(readFlag(query, "aspect")).toBeUndefined()
+    expect(readChoice(query, "mode", ["derivative"])).toBeUndefined()
+    expect(readJson(query, "cmp")).toBeUndefined()
+  })
+
+  it.each(["n=", "n=%20", "n=abc", "n=Infinity", "n=1e400", "n=NaN"])("reject the number in %s", (query) => {
+    expect(readNumber(params(query), "n")).toBeUndefined()
+  })
+
+  it.each(["xs=1,2", "xs=1,2,3,4", "xs=1,,3", "xs=1,x,3", "xs=1,2,Infinity"])("reject the list in %s", (query) => {
+    expect(readNumbers(params(query), "xs", 3)).toBeUndefined()
+  })
+
+  it("reject a range that is empty or backwards", () => {
+    expect(readRange(params("x=5,-5"), "x")).toBeUndefined()
+    expect(readRange(params("x=1,1"), "x")).toBeUndefined()
+  })
+
+  it("read a flag of 0 as off and anything else as on", () => {
+    expect(readFlag(params("cp=0"), "cp")).toBe(false)
+    expect(readFlag(params("cp"), "cp")).toBe(true)
+  })
+
+  it("reject unknown choices and broken JSON", () => {
+    expect(readChoice(params("mode=rm%20-rf"), "mode", ["derivative", "secant"])).toBeUndefined()
+    expect(readJson(params("cmp=%5B1,"), "cmp")).toBeUndefined()
+  })
+})
+
+describe("formatNumber", () => {
+  it("writes short numbers that read back as the same value", () => {
+    expect(formatNumber(0.1 + 0.2)).toBe("0.3")
+    expect(formatNumbers([-2, 1e-7, 12345.678])).toBe("-2,1e-7,12345.678")
+    expect(readNumbers(params(`xs=${formatNumbers([Math.PI, -Math.E])}`), "xs", 2)?.[0]).toBeCloseTo(Math.PI, 9)
+  })
+})
@@ -0,0 +1,56 @@
+import type { Range } from "@/lib/calculus"
+
+// Readers for query parameters of a shared link. Missing or malformed values come back undefined,
+// so a damaged or outdated link still opens, with defaults for whatever it cannot restore.
+
+export function readNumber(params: URLSearchParams, key: string): number | undefined {
+  const raw = params.get(key)
+  if (raw === null || !raw.trim()) return undefined
+  const value = Number(raw)
+  return isFinite(value) ? value : undefined
+}
+
+// Comma-separated numbers, all of them finite
+export function readNumbers(params: URLSearchParams, key: string, count: number): number[] | undefined {
+  const parts = params.get(key)?.split(",")
+  if (!parts || parts.length !== count) return undefined
+  const values = parts.map((part) => (part.trim() ? Number(part) : Number.NaN))
+  return values.every(isFinite) ? values : undefined
+}
+
+export function readRange(params: URLSearchParams, key: string): Range | undefined {
+  const values = readNumbers(params, key, 2)
+  return values && values[0] < values[1] ? [values[0], values[1]] : undefined
+}
+
+export function readFlag(params: URLSearchParams, key: string): boolean | undefined {
+  return params.has(key) ? params.get(key) !== "0" : undefined
+}
+
+export function readChoice<T extends string>(
+  params: URLSearchParams,
+  key: string,
+  choices: readonly T[],
+): T | undefined {
+  const value = params.get(key)
+  return choices.find((choice) => choice === value)
+}
+
+export function readJson(params: URLSearchParams, key: string): unknown {
+  const raw = params.get(key)
+  if (raw === null) return undefined
+  try {
+    return JSON.parse(raw)
+  } catch (e) {
+    return undefined
+  }
+}
+
+// Short text for a number that still reads back as practically the same value
+export const formatNumber = (value: number) => String(Number(value.toPrecision(10)))
+
+export const formatNumbers = (values: number[]) => values.map(formatNumber).join(",")
+
+// The address of this page with the given query, for sharing
+export const shareUrl = (query: string) =>
+  `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ""}`